@@ -1,10 +1,19 @@
 import { createClient } from "@/lib/supabase/server";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { RepliesWithFilters } from "@/components/replies/replies-with-filters";
-import { postReplyToTwitter, rejectReply, editReplySuggestion } from "@/app/actions/reply-actions";
+import {
+  postReplyToTwitter,
+  rejectReply,
+  editReplySuggestion,
+  scheduleReply,
+  unscheduleReply,
+  selectReplyVariant,
+  regenerateReplyVariants
+} from "@/app/actions/reply-actions";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
 import { redirect } from "next/navigation";
+import { resolveTimezone, startOfLocalDay } from "@/lib/timezone";
 
 export default async function HomePage() {
   const session = await getServerSession(authOptions);
@@ -19,7 +28,7 @@ export default async function HomePage() {
   // Check if user has completed onboarding
   const { data: profile } = await supabase
     .from('users_profiles')
-    .select('onboarding_completed')
+    .select('onboarding_completed, timezone')
     .eq('id', userId)
     .single();
 
@@ -27,9 +36,8 @@ export default async function HomePage() {
     redirect("/onboarding");
   }
 
-  // Get today's start date (midnight)
-  const todayStart = new Date();
-  todayStart.setHours(0, 0, 0, 0);
+  // "Today" starts at midnight in the user's own timezone
+  const todayStart = startOfLocalDay(resolveTimezone(profile.timezone));
 
   // TODAY'S STATS
   // Get pending review today (status = 'pending')
@@ -105,14 +113,32 @@ export default async function HomePage() {
       user_edited_reply,
       status,
       created_at,
+      scheduled_for,
+      post_error_message,
+      selected_variant_id,
+      version,
+      reply_variants!reply_variants_reply_suggestion_id_fkey (
+        id,
+        stance,
+        tone,
+        length,
+        content,
+        confidence,
+        version,
+        created_at
+      ),
       curated_posts!reply_suggestions_curated_post_id_fkey (
         twitter_post_id,
         post_content,
         post_author_handle,
         post_author_id,
+        post_author_name,
+        post_author_avatar_url,
+        post_author_verified,
         post_url,
         post_created_at,
         relevance_score,
+        thread_context,
         monitoring_target_id,
         monitoring_targets!curated_posts_monitoring_target_id_fkey (
           id,
@@ -169,7 +195,11 @@ export default async function HomePage() {
             monitoringTargets={monitoringTargets || []}
             onPost={postReplyToTwitter}
             onReject={rejectReply}
+            onSchedule={scheduleReply}
+            onUnschedule={unscheduleReply}
             onEdit={editReplySuggestion}
+            onSelectVariant={selectReplyVariant}
+            onRegenerate={regenerateReplyVariants}
           />
         </div>
       </main>
@@ -2,6 +2,10 @@ import { createClient } from "@/lib/supabase/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
 import { redirect } from "next/navigation";
+import { Progress } from "@/components/ui/progress";
+import { userBudget } from "@/lib/user-budget";
+import { entitlements } from "@/lib/entitlements";
+import { CheckScheduleForm } from "@/components/settings/check-schedule-form";
 
 export default async function SettingsPage() {
   const session = await getServerSession(authOptions);
@@ -19,6 +23,9 @@ export default async function SettingsPage() {
     .eq('id', userId)
     .single();
 
+  const budget = await userBudget.getBudget(userId);
+  const tier = await entitlements.getEntitlements(userId);
+
   return (
     <>
       <main className="flex-shrink-0 w-[600px]">
@@ -32,10 +39,13 @@ export default async function SettingsPage() {
 
           <div className="space-y-4">
             <div className="p-4 border rounded-lg">
-              <h3 className="font-medium mb-2">Daily Digest Time</h3>
-              <p className="text-sm text-muted-foreground">
-                {profile?.daily_digest_time || 'Not configured'}
-              </p>
+              <CheckScheduleForm
+                digestTime={profile?.daily_digest_time || null}
+                extraCheckTimes={profile?.extra_check_times || []}
+                checksPerDay={tier.checksPerDay}
+                planName={tier.displayName}
+                timezone={profile?.timezone || 'UTC'}
+              />
             </div>
 
             <div className="p-4 border rounded-lg">
@@ -44,6 +54,34 @@ export default async function SettingsPage() {
                 {profile?.timezone || 'UTC'}
               </p>
             </div>
+
+            <div className="p-4 border rounded-lg space-y-3">
+              <div>
+                <h3 className="font-medium mb-1">API Budget</h3>
+                <p className="text-sm text-muted-foreground">
+                  ${budget.remaining.toFixed(2)} available today on the <span className="capitalize">{budget.tier}</span> plan.
+                  When it runs out, monitoring pauses until the budget resets.
+                </p>
+              </div>
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>Today</span>
+                  <span className="text-muted-foreground">
+                    ${budget.spentToday.toFixed(2)} / ${budget.dailyLimit.toFixed(2)}
+                  </span>
+                </div>
+                <Progress value={Math.min(100, (budget.spentToday / budget.dailyLimit) * 100)} className="h-2" />
+              </div>
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>This month</span>
+                  <span className="text-muted-foreground">
+                    ${budget.spentThisMonth.toFixed(2)} / ${budget.monthlyLimit.toFixed(2)}
+                  </span>
+                </div>
+                <Progress value={Math.min(100, (budget.spentThisMonth / budget.monthlyLimit) * 100)} className="h-2" />
+              </div>
+            </div>
           </div>
         </div>
       </main>
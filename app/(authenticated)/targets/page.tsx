@@ -3,6 +3,7 @@ import { TargetsManagement } from "@/components/targets/targets-management";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
 import { redirect } from "next/navigation";
+import { entitlements } from "@/lib/entitlements";
 
 export default async function TargetsPage() {
   const session = await getServerSession(authOptions);
@@ -27,7 +28,8 @@ export default async function TargetsPage() {
     .select(`
       *,
       topic_targets (*),
-      twitter_list_targets (*)
+      twitter_list_targets (*),
+      account_targets (*)
     `)
     .eq('user_id', userId)
     .order('created_at', { ascending: false });
@@ -36,6 +38,9 @@ export default async function TargetsPage() {
     console.error('Error fetching targets:', targetsError);
   }
 
+  // Target limits and types for the user's plan
+  const tierEntitlements = await entitlements.getEntitlements(userId);
+
   // Get target performance stats (mock for now)
   const targetStats = targets?.map(target => ({
     targetId: target.id,
@@ -55,7 +60,7 @@ export default async function TargetsPage() {
               Monitoring Targets
             </h1>
             <p className="text-muted-foreground">
-              Manage your topics and Twitter lists to monitor for engagement opportunities.
+              Manage your topics, Twitter lists and watched accounts to monitor for engagement opportunities.
             </p>
           </div>
 
@@ -64,6 +69,7 @@ export default async function TargetsPage() {
             userId={user.sub}
             initialTargets={targets || []}
             targetStats={targetStats}
+            entitlements={tierEntitlements}
             profile={profile}
           />
         </div>
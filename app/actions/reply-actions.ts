@@ -4,11 +4,34 @@ import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/auth';
+import { POSTABLE_STATUSES, replyPoster, ReplyPoster, type PostReplyResult } from '@/lib/reply-poster';
+import { replyGenerator } from '@/lib/reply-generator';
+import {
+  DEFAULT_REPLY_STYLE,
+  MAX_INSTRUCTION_LENGTH,
+  parseReplyStyle,
+  type ReplyStyle,
+  type ReplyVariant
+} from '@/lib/reply-variants';
+import { affordableCount, userBudget } from '@/lib/user-budget';
+
+export type { PostReplyResult, PostReplyErrorCode } from '@/lib/reply-poster';
+
+export interface RegenerateVariantsResult {
+  success: boolean;
+  error?: string;
+  suggestedReply?: string;
+  variants?: ReplyVariant[];
+  version?: number;
+}
+
+// Suggestions the user can still change before posting
+const REVIEW_STATUSES = ['pending', 'approved', 'edited'];
 
 /**
  * Update the status of a reply suggestion
  */
-export async function updateReplyStatus(replyId: string, status: 'posted' | 'skipped') {
+export async function updateReplyStatus(replyId: string, status: 'skipped') {
   const session = await getServerSession(authOptions);
 
   if (!session?.user) {
@@ -18,18 +41,12 @@ export async function updateReplyStatus(replyId: string, status: 'posted' | 'ski
   const supabase = await createClient();
   const userId = session.user.id;
 
-  const updateData: any = {
-    status,
-    updated_at: new Date().toISOString()
-  };
-
-  if (status === 'posted') {
-    updateData.posted_at = new Date().toISOString();
-  }
-
   const { error } = await supabase
     .from('reply_suggestions')
-    .update(updateData)
+    .update({
+      status,
+      updated_at: new Date().toISOString()
+    })
     .eq('id', replyId)
     .eq('user_id', userId);
 
@@ -71,23 +88,290 @@ export async function editReplySuggestion(replyId: string, newText: string) {
 }
 
 /**
- * Post a reply to Twitter (placeholder for now)
- * In production, this would integrate with Twitter API
+ * Show a different variant of a suggestion
+ * The variant replaces the shown reply and any edit, and is recorded as the user's pick
+ */
+export async function selectReplyVariant(replyId: string, variantId: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const supabase = await createClient();
+  const userId = session.user.id;
+
+  const { data: variant, error: variantError } = await supabase
+    .from('reply_variants')
+    .select('id, content')
+    .eq('id', variantId)
+    .eq('reply_suggestion_id', replyId)
+    .eq('user_id', userId)
+    .single();
+
+  if (variantError || !variant) {
+    throw new Error('Reply variant not found');
+  }
+
+  const { error } = await supabase
+    .from('reply_suggestions')
+    .update({
+      suggested_reply: variant.content,
+      user_edited_reply: null,
+      selected_variant_id: variant.id,
+      status: 'pending',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', replyId)
+    .eq('user_id', userId)
+    .in('status', REVIEW_STATUSES);
+
+  if (error) {
+    throw new Error(`Failed to select reply variant: ${error.message}`);
+  }
+
+  revalidatePath('/');
+}
+
+/**
+ * Regenerate a suggestion with new variants, keeping the replaced reply as a version
+ * An optional instruction ("make it funnier") steers the new replies
+ * Generation counts against the user's daily budget like any other reply
+ */
+export async function regenerateReply(replyId: string, instruction?: string): Promise<RegenerateVariantsResult> {
+  return regenerate(replyId, DEFAULT_REPLY_STYLE, instruction);
+}
+
+/**
+ * Regenerate a suggestion with the tone and length picked on the reply card
+ */
+export async function regenerateReplyVariants(
+  replyId: string,
+  style: ReplyStyle,
+  instruction?: string
+): Promise<RegenerateVariantsResult> {
+  return regenerate(replyId, parseReplyStyle(style), instruction);
+}
+
+async function regenerate(replyId: string, style: ReplyStyle, instruction?: string): Promise<RegenerateVariantsResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const trimmedInstruction = instruction?.trim() || null;
+  if (trimmedInstruction && trimmedInstruction.length > MAX_INSTRUCTION_LENGTH) {
+    return { success: false, error: `Instructions can be at most ${MAX_INSTRUCTION_LENGTH} characters` };
+  }
+
+  const supabase = await createClient();
+  const userId = session.user.id;
+
+  const { data: reply, error: replyError } = await supabase
+    .from('reply_suggestions')
+    .select(`
+      id,
+      status,
+      curated_posts!reply_suggestions_curated_post_id_fkey (
+        twitter_post_id,
+        post_content,
+        post_author_id,
+        post_created_at,
+        relevance_score,
+        likes_count,
+        retweets_count,
+        replies_count,
+        thread_context
+      )
+    `)
+    .eq('id', replyId)
+    .eq('user_id', userId)
+    .single();
+
+  const curatedPost = Array.isArray(reply?.curated_posts) ? reply.curated_posts[0] : reply?.curated_posts;
+  if (replyError || !reply || !curatedPost) {
+    return { success: false, error: 'Reply not found' };
+  }
+
+  if (!REVIEW_STATUSES.includes(reply.status)) {
+    return { success: false, error: 'Only replies still in review can be regenerated' };
+  }
+
+  const budget = await userBudget.getBudget(userId);
+  if (affordableCount(budget, replyGenerator.estimateCost(1)) < 1) {
+    return { success: false, error: 'You have reached your daily AI budget. Try again tomorrow.' };
+  }
+
+  let result: Awaited<ReturnType<typeof replyGenerator.regenerateVariants>>;
+  try {
+    result = await replyGenerator.regenerateVariants(userId, replyId, {
+      id: curatedPost.twitter_post_id,
+      text: curatedPost.post_content,
+      created_at: curatedPost.post_created_at,
+      author_id: curatedPost.post_author_id,
+      public_metrics: {
+        like_count: curatedPost.likes_count || 0,
+        retweet_count: curatedPost.retweets_count || 0,
+        reply_count: curatedPost.replies_count || 0,
+        quote_count: 0
+      },
+      score: curatedPost.relevance_score || undefined,
+      context: curatedPost.thread_context
+    }, style, trimmedInstruction);
+  } catch (error) {
+    console.error('Error regenerating reply:', error);
+    return { success: false, error: 'Could not save the new replies. Please try again.' };
+  }
+
+  if (!result) {
+    return { success: false, error: 'Could not generate new replies. Please try again.' };
+  }
+
+  revalidatePath('/');
+
+  return { success: true, ...result };
+}
+
+/**
+ * Post a reply to Twitter as the signed-in user
+ * The suggestion is only marked as posted once X has accepted the reply
+ */
+export async function postReplyToTwitter(replyId: string, replyText: string): Promise<PostReplyResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const supabase = await createClient();
+  const result = await replyPoster.postReply(supabase, session.user.id, replyId, replyText);
+
+  if (result.success) {
+    revalidatePath('/');
+  }
+
+  return result;
+}
+
+/**
+ * Schedule a reply to be posted later by the scheduled posting job
+ * Without an explicit time the reply goes into the next open slot, so
+ * replies approved in one sitting are spread across the day
  */
-export async function postReplyToTwitter(replyId: string, replyText: string) {
+export async function scheduleReply(
+  replyId: string,
+  replyText: string,
+  scheduledFor?: string
+): Promise<PostReplyResult> {
   const session = await getServerSession(authOptions);
 
   if (!session?.user) {
     throw new Error('Unauthorized');
   }
 
-  // TODO: Implement actual Twitter posting logic here
-  // For now, just update the status to 'posted'
+  const text = replyText.trim();
+  if (text.length === 0 || text.length > 280) {
+    return ReplyPoster.failure('invalid_reply');
+  }
+
+  const supabase = await createClient();
+  const userId = session.user.id;
+
+  const { data: reply, error: replyError } = await supabase
+    .from('reply_suggestions')
+    .select('id, status, suggested_reply, user_edited_reply')
+    .eq('id', replyId)
+    .eq('user_id', userId)
+    .single();
+
+  if (replyError || !reply) {
+    return ReplyPoster.failure('not_found');
+  }
+
+  if (reply.status === 'posted') {
+    return ReplyPoster.failure('already_posted');
+  }
+
+  if (!POSTABLE_STATUSES.includes(reply.status)) {
+    return ReplyPoster.failure('post_in_progress');
+  }
 
-  console.log(`Would post reply: "${replyText}"`);
+  let postAt: Date;
+  if (scheduledFor) {
+    postAt = new Date(scheduledFor);
+    if (isNaN(postAt.getTime()) || postAt.getTime() <= Date.now()) {
+      return ReplyPoster.failure('invalid_schedule_time');
+    }
+  } else {
+    postAt = await replyPoster.getNextOpenSlot(supabase, userId);
+  }
+
+  const updateData: Record<string, string | number | null> = {
+    status: 'scheduled',
+    scheduled_for: postAt.toISOString(),
+    post_attempts: 0,
+    post_error_code: null,
+    post_error_message: null,
+    updated_at: new Date().toISOString()
+  };
 
-  // Update status to posted
-  await updateReplyStatus(replyId, 'posted');
+  if (text !== (reply.user_edited_reply || reply.suggested_reply)) {
+    updateData.user_edited_reply = text;
+  }
+
+  // Only while no post of it is underway; the scheduled run may have claimed it since it was read
+  const { data: scheduled, error } = await supabase
+    .from('reply_suggestions')
+    .update(updateData)
+    .eq('id', replyId)
+    .eq('user_id', userId)
+    .in('status', POSTABLE_STATUSES)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to schedule reply: ${error.message}`);
+  }
+
+  if (!scheduled?.length) {
+    return ReplyPoster.failure('post_in_progress');
+  }
+
+  revalidatePath('/');
+
+  return { success: true };
+}
+
+/**
+ * Cancel a scheduled reply, or clear a failed one, and return it to review
+ */
+export async function unscheduleReply(replyId: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const supabase = await createClient();
+  const userId = session.user.id;
+
+  const { error } = await supabase
+    .from('reply_suggestions')
+    .update({
+      status: 'pending',
+      scheduled_for: null,
+      post_attempts: 0,
+      post_error_code: null,
+      post_error_message: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', replyId)
+    .eq('user_id', userId)
+    .in('status', ['scheduled', 'failed']);
+
+  if (error) {
+    throw new Error(`Failed to cancel scheduled reply: ${error.message}`);
+  }
 
   revalidatePath('/');
 }
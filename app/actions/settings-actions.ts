@@ -0,0 +1,53 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/auth';
+import { entitlements } from '@/lib/entitlements';
+import { parseCheckTime, validateExtraCheckTimes } from '@/lib/check-schedule';
+
+/**
+ * Save the daily digest time and extra scheduled check times
+ * The number of checks is limited by the user's tier
+ */
+export async function updateCheckSchedule(
+  digestTime: string,
+  extraCheckTimes: string[]
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const userId = session.user.id;
+  const digest = parseCheckTime(digestTime);
+  if (!digest) {
+    return { success: false, error: 'Invalid digest time' };
+  }
+
+  const tier = await entitlements.getEntitlements(userId);
+  const { times, error: scheduleError } = validateExtraCheckTimes(digest, extraCheckTimes, tier.checksPerDay);
+  if (scheduleError) {
+    return { success: false, error: scheduleError };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('users_profiles')
+    .update({
+      daily_digest_time: digest,
+      extra_check_times: times,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update check schedule: ${error.message}`);
+  }
+
+  revalidatePath('/settings');
+
+  return { success: true };
+}
@@ -2,6 +2,7 @@ import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
+import { resolveTimezone, startOfLocalDay } from "@/lib/timezone";
 
 export async function GET() {
   try {
@@ -17,9 +18,14 @@ export async function GET() {
     const supabase = await createClient();
     const userId = session.user.id;
 
-    // Get today's start date (midnight)
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
+    // "Today" starts at midnight in the user's own timezone
+    const { data: profile } = await supabase
+      .from('users_profiles')
+      .select('timezone')
+      .eq('id', userId)
+      .single();
+
+    const todayStart = startOfLocalDay(resolveTimezone(profile?.timezone));
 
     // Parallel fetch all analytics data
     const [
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { voiceLearner } from '@/lib/voice-learner';
+
+// Expected API key for cron jobs
+const CRON_API_KEY = process.env.CRON_API_KEY;
+
+// Only users who edited or skipped something since the last run need relearning
+const DEFAULT_LOOKBACK_HOURS = 24;
+
+/**
+ * Voice learning endpoint - called by cron/scheduler once a day
+ * Folds recurring corrections from edits and skips into each active user's voice profile
+ * POST /api/public/learn-voice
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify API key for security
+    const apiKey = request.headers.get('CRON-API-Key');
+    if (!CRON_API_KEY || apiKey !== CRON_API_KEY) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized - Invalid API key'
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const lookbackHours = parseInt(searchParams.get('hours') || String(DEFAULT_LOOKBACK_HOURS));
+
+    const since = new Date(Date.now() - lookbackHours * 60 * 60 * 1000);
+    const userIds = await voiceLearner.getUsersWithFeedback(since, limit);
+
+    console.log(`🗣️ Voice learning started for ${userIds.length} users`);
+
+    let learned = 0;
+    const errors: string[] = [];
+    for (const userId of userIds) {
+      const result = await voiceLearner.learnUser(userId);
+      if (result.success) {
+        learned++;
+      } else {
+        errors.push(`User ${userId}: ${result.error}`);
+      }
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      message: `Updated voice profiles for ${learned} of ${userIds.length} users`,
+      errors: errors.length > 0 ? errors : undefined
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error learning voice profiles:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json({
+      success: false,
+      message: `Voice learning failed: ${message}`,
+      errors: [message]
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { replyPoster } from '@/lib/reply-poster';
+
+// Expected API key for cron jobs
+const CRON_API_KEY = process.env.CRON_API_KEY;
+
+interface PostScheduledResponse {
+  success: boolean;
+  message: string;
+  stats: {
+    due: number;
+    posted: number;
+    retried: number;
+    failed: number;
+  };
+  errors?: string[];
+}
+
+/**
+ * Scheduled reply posting endpoint - called by cron/scheduler every few minutes
+ * POST /api/public/post-scheduled
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<PostScheduledResponse>> {
+  try {
+    // Verify API key for security
+    const apiKey = request.headers.get('CRON-API-Key');
+    if (!CRON_API_KEY || apiKey !== CRON_API_KEY) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized - Invalid API key',
+        stats: { due: 0, posted: 0, retried: 0, failed: 0 }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '25');
+
+    console.log('📤 Scheduled posting started');
+    const stats = await replyPoster.processDueReplies(limit);
+
+    console.log(`✅ Scheduled posting complete:`, {
+      due: stats.due,
+      posted: stats.posted,
+      retried: stats.retried,
+      failed: stats.failed
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Posted ${stats.posted} of ${stats.due} due replies`,
+      stats: {
+        due: stats.due,
+        posted: stats.posted,
+        retried: stats.retried,
+        failed: stats.failed
+      },
+      errors: stats.errors.length > 0 ? stats.errors : undefined
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error in scheduled posting:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json({
+      success: false,
+      message: `Scheduled posting failed: ${message}`,
+      stats: { due: 0, posted: 0, retried: 0, failed: 0 },
+      errors: [message]
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET endpoint for queue status checks
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const supabase = createServiceClient();
+
+    const { count: dueCount } = await supabase
+      .from('reply_suggestions')
+      .select('*', { count: 'exact', head: true })
+      .eq('status', 'scheduled')
+      .lte('scheduled_for', new Date().toISOString());
+
+    const { count: scheduledCount } = await supabase
+      .from('reply_suggestions')
+      .select('*', { count: 'exact', head: true })
+      .eq('status', 'scheduled');
+
+    return NextResponse.json({
+      status: 'ready',
+      due: dueCount || 0,
+      scheduled: scheduledCount || 0
+    });
+  } catch (error: unknown) {
+    return NextResponse.json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TwitterCredentialsService } from '@/lib/twitter-credentials';
+
+// Expected API key for cron jobs
+const CRON_API_KEY = process.env.CRON_API_KEY;
+
+/**
+ * Token re-encryption endpoint - run once after deploying a new TOKEN_ENCRYPTION_KEY_ID
+ * (or to migrate plaintext tokens) before removing the old key from TOKEN_ENCRYPTION_KEYS
+ * POST /api/public/reencrypt-tokens
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify API key for security
+    const apiKey = request.headers.get('CRON-API-Key');
+    if (!CRON_API_KEY || apiKey !== CRON_API_KEY) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized - Invalid API key'
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const batchSize = parseInt(searchParams.get('batchSize') || '100');
+
+    console.log('🔐 Token re-encryption started');
+    const stats = await TwitterCredentialsService.reencryptStoredTokens(batchSize);
+
+    return NextResponse.json({
+      success: stats.errors.length === 0,
+      message: `Re-encrypted tokens for ${stats.reencrypted} of ${stats.scanned} users`,
+      stats: {
+        scanned: stats.scanned,
+        reencrypted: stats.reencrypted,
+        needsReconnect: stats.needsReconnect
+      },
+      errors: stats.errors.length > 0 ? stats.errors : undefined
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error re-encrypting tokens:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json({
+      success: false,
+      message: `Token re-encryption failed: ${message}`,
+      errors: [message]
+    }, { status: 500 });
+  }
+}
@@ -4,7 +4,8 @@ import { createServiceClient } from '@/lib/supabase/server';
 const CRON_API_KEY = process.env.CRON_API_KEY;
 
 /**
- * Reset daily quotas and clean cache - called at midnight UTC
+ * Reset daily quotas and clean cache - called every 15 minutes so each user is reset
+ * at their own local midnight
  * POST /api/admin/reset-daily
  */
 export async function POST(request: NextRequest) {
@@ -19,38 +20,20 @@ export async function POST(request: NextRequest) {
     
     const supabase = createServiceClient();
     
-    // Reset user processing state for new day
-    const { error: resetError } = await supabase
-      .from('user_processing_state')
-      .update({
-        replies_left_today: 10, // TODO: Make this based on subscription tier
-        daily_replies_generated: 0,
-        daily_posts_fetched: 0,
-        daily_reset_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // Tomorrow
-      })
-      .lte('daily_reset_at', new Date().toISOString());
+    // Reset users whose local day has ended; replies and fetch size come from each user's tier
+    const { data: usersReset, error: resetError } = await supabase.rpc('reset_daily_quotas');
 
     if (resetError) {
-      console.error('Error resetting user processing state:', resetError);
-    }
-
-    // Reset monitoring targets daily counters
-    const { error: targetsError } = await supabase
-      .from('monitoring_targets')
-      .update({
-        fetch_count_today: 0
-      })
-      .neq('id', '00000000-0000-0000-0000-000000000000'); // Update all
-
-    if (targetsError) {
-      console.error('Error resetting target counters:', targetsError);
+      console.error('Error resetting daily quotas:', resetError);
+    } else {
+      console.log(`Reset daily quotas for ${usersReset} users`);
     }
 
-    // Clean expired cache entries
+    // Clean cache entries that can no longer be served, even as stale
     const { error: cacheError } = await supabase
       .from('search_cache')
       .delete()
-      .lt('expires_at', new Date().toISOString());
+      .lt('stale_until', new Date().toISOString());
 
     if (cacheError) {
       console.error('Error cleaning expired cache:', cacheError);
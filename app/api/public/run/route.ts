@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
-import { BatchProcessor } from '@/lib/batch-processor';
-import { replyGenerator } from '@/lib/reply-generator';
+import { BatchProcessor, type BatchProcessingStats } from '@/lib/batch-processor';
+import { usageLedger } from '@/lib/usage-ledger';
 
 // Daily budget limit in USD
 const DAILY_BUDGET_USD = parseFloat(process.env.DAILY_BUDGET_USD || '50');
@@ -47,6 +47,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<Processin
     }
 
     console.log('🚀 Processing batch started');
+
+    // Users whose local day ended since the last reset-daily run start the batch with fresh quotas
+    await resetDueQuotas();
     
     // Check global daily budget
     const budgetCheck = await checkDailyBudget();
@@ -72,21 +75,24 @@ export async function POST(request: NextRequest): Promise<NextResponse<Processin
     console.log('Batch size:', batchSize);
     
     // Process the batch
+    const startedAt = new Date();
     const processor = new BatchProcessor();
     const batchStats = await processor.processBatch(batchSize);
     console.log('Batch stats:', batchStats);
 
-    // Log API usage for this batch
-    await logBatchUsage(batchStats);
+    // Each X and LLM call logged its own usage row; the batch cost is their sum
+    const estimatedCost = await getBatchCost(startedAt);
 
-    // Calculate estimated cost (very rough estimate)
-    const estimatedCost = estimateBatchCost(batchStats);
+    // Record the batch for efficiency tracking
+    await logBatch(batchStats, startedAt, estimatedCost);
     
     console.log(`✅ Batch processing complete:`, {
       users: batchStats.usersProcessed,
       tweets: batchStats.totalTweets,
       replies: batchStats.totalReplies,
       cacheHitRate: `${Math.round(batchStats.cacheHitRate * 100)}%`,
+      cacheHits: batchStats.cacheHits,
+      cacheMisses: batchStats.cacheMisses,
       estimatedCost: `$${estimatedCost.toFixed(4)}`
     });
 
@@ -124,28 +130,36 @@ export async function POST(request: NextRequest): Promise<NextResponse<Processin
 }
 
 /**
- * Check current daily budget usage
+ * Reset quotas for users whose local midnight has passed
+ * reset-daily does this every 15 minutes; running it here too means a late or missed reset
+ * never keeps a user out of a batch
  */
-async function checkDailyBudget(): Promise<{ spent: number; exceeded: boolean }> {
+async function resetDueQuotas(): Promise<void> {
   try {
     const supabase = createServiceClient();
-    
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split('T')[0];
-    
-    // Sum up estimated costs for today
-    const { data, error } = await supabase
-      .from('api_usage_log')
-      .select('estimated_cost_usd')
-      .gte('created_at', `${today}T00:00:00.000Z`)
-      .lt('created_at', `${today}T23:59:59.999Z`);
+    const { data: usersReset, error } = await supabase.rpc('reset_daily_quotas');
 
     if (error) {
-      console.error('Error checking daily budget:', error);
-      return { spent: 0, exceeded: false };
+      console.error('Error resetting daily quotas:', error);
+    } else if (usersReset) {
+      console.log(`Reset daily quotas for ${usersReset} users`);
     }
+  } catch (error) {
+    console.error('Error in resetDueQuotas:', error);
+  }
+}
 
-    const totalSpent = data?.reduce((sum, record) => sum + (record.estimated_cost_usd || 0), 0) || 0;
+/**
+ * Check current daily budget usage
+ * Based on the per-call rows in api_usage_log, so it reflects real token counts and posts read
+ */
+async function checkDailyBudget(): Promise<{ spent: number; exceeded: boolean }> {
+  try {
+    // Start of today (UTC)
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    const totalSpent = await usageLedger.getSpend(today);
     const exceeded = totalSpent >= DAILY_BUDGET_USD;
 
     console.log(`💰 Daily budget check: $${totalSpent.toFixed(4)} / $${DAILY_BUDGET_USD} (${exceeded ? 'EXCEEDED' : 'OK'})`);
@@ -158,70 +172,47 @@ async function checkDailyBudget(): Promise<{ spent: number; exceeded: boolean }>
 }
 
 /**
- * Log batch usage for cost tracking
+ * Cost recorded since the batch started
+ * Includes any other usage logged in the meantime (e.g. onboarding), which is rare during a run
+ */
+async function getBatchCost(startedAt: Date): Promise<number> {
+  try {
+    return await usageLedger.getSpend(startedAt);
+  } catch (error) {
+    console.error('Error summing batch cost:', error);
+    return 0;
+  }
+}
+
+/**
+ * Log the batch record for cost tracking
  */
-async function logBatchUsage(batchStats: any): Promise<void> {
+async function logBatch(batchStats: BatchProcessingStats, startedAt: Date, cost: number): Promise<void> {
   try {
     const supabase = createServiceClient();
     
     // Create a processing batch record
-    const { data: batchRecord, error: batchError } = await supabase
+    const { error: batchError } = await supabase
       .from('processing_batches')
       .insert({
         user_id: null, // System batch (null for system operations)
         batch_type: 'scheduled',
-        started_at: new Date().toISOString(),
+        started_at: startedAt.toISOString(),
         completed_at: new Date().toISOString(),
         total_posts_fetched: batchStats.totalTweets,
         total_replies_generated: batchStats.totalReplies,
-        total_cost_usd: estimateBatchCost(batchStats),
+        total_cost_usd: cost,
         status: 'completed'
-      })
-      .select()
-      .single();
+      });
 
     if (batchError) {
       console.error('Error logging batch record:', batchError);
     }
-
-    // Log individual API usage
-    const { error: usageError } = await supabase
-      .from('api_usage_log')
-      .insert({
-        user_id: null, // System operation (null for system operations)
-        operation_type: 'batch_processing',
-        posts_fetched: batchStats.totalTweets,
-        ai_tokens_used: batchStats.totalReplies * 550, // Rough estimate: ~500 input + 50 output tokens per reply
-        estimated_cost_usd: estimateBatchCost(batchStats),
-        replies_generated: batchStats.totalReplies
-      });
-
-    if (usageError) {
-      console.error('Error logging API usage:', usageError);
-    }
   } catch (error) {
-    console.error('Error in logBatchUsage:', error);
+    console.error('Error in logBatch:', error);
   }
 }
 
-/**
- * Estimate cost for a batch (very rough calculation)
- */
-function estimateBatchCost(batchStats: any): number {
-  // Twitter API v2 pricing (approximate):
-  // - Search tweets: ~$0.0133 per 1000 tweets
-  // - Cache hits cost nothing
-
-  const tweetsActuallyFetched = Math.round(batchStats.totalTweets * (1 - batchStats.cacheHitRate));
-  const twitterApiCost = (tweetsActuallyFetched / 1000) * 0.0133;
-
-  // OpenAI GPT-4o-mini costs for reply generation
-  // Using the ReplyGenerator's cost estimation
-  const openaiCost = replyGenerator.estimateCost(batchStats.totalReplies);
-
-  return twitterApiCost + openaiCost;
-}
-
 /**
  * GET endpoint for status checks and manual testing
  */
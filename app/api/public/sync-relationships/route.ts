@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { relationshipScorer } from '@/lib/relationship-scorer';
+
+// Expected API key for cron jobs
+const CRON_API_KEY = process.env.CRON_API_KEY;
+
+/**
+ * Relationship sync endpoint - called by cron/scheduler a few times a day
+ * Refreshes follow edges and replies-back for the users synced least recently
+ * POST /api/public/sync-relationships
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify API key for security
+    const apiKey = request.headers.get('CRON-API-Key');
+    if (!CRON_API_KEY || apiKey !== CRON_API_KEY) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized - Invalid API key'
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '10');
+
+    const supabase = createServiceClient();
+    const { data: users, error } = await supabase
+      .from('users_profiles')
+      .select('id, twitter_user_id')
+      .not('twitter_user_id', 'is', null)
+      .eq('twitter_needs_reconnect', false)
+      .order('relationships_synced_at', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log(`🤝 Relationship sync started for ${users?.length || 0} users`);
+
+    let synced = 0;
+    const errors: string[] = [];
+    for (const user of users || []) {
+      const result = await relationshipScorer.syncUser(user.id, user.twitter_user_id);
+      if (result.success) {
+        synced++;
+      } else {
+        errors.push(`User ${user.id}: ${result.error}`);
+      }
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      message: `Synced relationships for ${synced} of ${users?.length || 0} users`,
+      errors: errors.length > 0 ? errors : undefined
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error syncing relationships:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json({
+      success: false,
+      message: `Relationship sync failed: ${message}`,
+      errors: [message]
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/auth';
+import { TwitterApiError } from '@/lib/twitter-api';
+import { DEFAULT_TARGET_LANGUAGES, parseLanguages } from '@/lib/languages';
+import { parseAdvancedQueryFields, validateTopicQuery } from '@/lib/query-builder';
+import { searchBroker } from '@/lib/search-broker';
+import { tweetFilter } from '@/lib/tweet-filter';
+import { replyGenerator } from '@/lib/reply-generator';
+import { X_COST_PER_POST_READ } from '@/lib/usage-ledger';
+import { userBudget } from '@/lib/user-budget';
+import { createServiceClient } from '@/lib/supabase/server';
+
+// One page of recent search; the preview never fetches more than this
+const SAMPLE_SIZE = 100;
+
+// Number of matching tweets returned to show the user
+const MAX_SAMPLE_TWEETS = 10;
+
+// Recent search covers the last 7 days
+const SEARCH_WINDOW_DAYS = 7;
+
+// Each test run costs a full page of reads, so a user can start one a minute
+const PREVIEW_COOLDOWN_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_SPAN_MS = 60 * 60 * 1000;
+
+/**
+ * Estimate how many tweets a query matches per day from one page of results
+ * A partial page covers the whole search window; a full page only covers the time
+ * between its oldest and newest tweet
+ */
+function estimateDailyVolume(tweets: { created_at: string }[]): number {
+  if (tweets.length < SAMPLE_SIZE) {
+    return tweets.length / SEARCH_WINDOW_DAYS;
+  }
+
+  const times = tweets.map(tweet => new Date(tweet.created_at).getTime());
+  const spanMs = Math.max(Math.max(...times) - Math.min(...times), MIN_SPAN_MS);
+  return tweets.length / (spanMs / DAY_MS);
+}
+
+/**
+ * Claim a test run for a user; false while their previous one is inside the cooldown
+ */
+async function claimPreview(userId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+  const cutoff = new Date(Date.now() - PREVIEW_COOLDOWN_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from('users_profiles')
+    .update({ target_preview_at: new Date().toISOString() })
+    .eq('id', userId)
+    .or(`target_preview_at.is.null,target_preview_at.lt.${cutoff}`)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to claim target preview: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// POST /api/targets/preview - Test-run a draft topic target without saving it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { keywords, hashtags, excludeKeywords } = body;
+    const minEngagement = parseInt(body.minEngagement) || 0;
+    const languages = body.languages !== undefined ? parseLanguages(body.languages) : DEFAULT_TARGET_LANGUAGES;
+    const advancedFields = parseAdvancedQueryFields(body);
+
+    if (!languages) {
+      return NextResponse.json({ error: 'Unsupported language' }, { status: 400 });
+    }
+
+    if (!advancedFields) {
+      return NextResponse.json({ error: 'Invalid query options' }, { status: 400 });
+    }
+
+    const draft = {
+      keywords,
+      hashtags,
+      exclude_keywords: excludeKeywords,
+      languages,
+      ...advancedFields
+    };
+
+    const queryError = validateTopicQuery(draft);
+    if (queryError) {
+      return NextResponse.json({ error: queryError }, { status: 400 });
+    }
+
+    const budget = await userBudget.getBudget(session.user.id);
+    if (budget.remaining < SAMPLE_SIZE * X_COST_PER_POST_READ) {
+      return NextResponse.json({ error: 'Your remaining budget does not cover a test run' }, { status: 403 });
+    }
+
+    if (!(await claimPreview(session.user.id))) {
+      return NextResponse.json({ error: 'You can run one test a minute, try again shortly' }, { status: 429 });
+    }
+
+    // One capped search straight from X: nothing is cached or stored and no reply quota is used
+    const query = searchBroker.buildQuery(draft);
+    const tweets = await searchBroker.sampleTweets(query, SAMPLE_SIZE, { userId: session.user.id });
+
+    // Same non-AI filters the batch processor applies before scoring
+    const matching = searchBroker.filterByEngagement(tweetFilter.filterJunk(tweets), minEngagement);
+
+    const dailyVolume = estimateDailyVolume(tweets);
+    const matchRate = tweets.length > 0 ? matching.length / tweets.length : 0;
+    const dailyMatches = Math.round(dailyVolume * matchRate);
+
+    // Twitter API reads plus a reply for each matching tweet
+    const twitterApiCost = dailyVolume * X_COST_PER_POST_READ;
+    const estimatedDailyCost = twitterApiCost + replyGenerator.estimateCost(dailyMatches);
+
+    return NextResponse.json({
+      query,
+      sampleSize: tweets.length,
+      matchingCount: matching.length,
+      tweets: matching.slice(0, MAX_SAMPLE_TWEETS).map(tweet => ({
+        id: tweet.id,
+        text: tweet.text,
+        created_at: tweet.created_at,
+        public_metrics: tweet.public_metrics,
+        author: tweet.author || null
+      })),
+      estimatedDailyVolume: Math.round(dailyVolume),
+      estimatedDailyMatches: dailyMatches,
+      estimatedDailyCost: Math.round(estimatedDailyCost * 10000) / 10000
+    });
+  } catch (error: unknown) {
+    console.error('Error in POST /api/targets/preview:', error);
+
+    if (error instanceof TwitterApiError) {
+      if (error.code === 'invalid_request') {
+        return NextResponse.json({ error: `X rejected the query: ${error.message}` }, { status: 400 });
+      }
+      if (error.code === 'rate_limited') {
+        return NextResponse.json({ error: 'Search is rate limited, try again in a few minutes' }, { status: 429 });
+      }
+      return NextResponse.json({ error: 'Failed to search X' }, { status: 502 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
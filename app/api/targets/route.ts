@@ -2,6 +2,138 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/auth';
+import TwitterApiService, { TwitterApiError, type TwitterUser } from '@/lib/twitter-api';
+import { DEFAULT_TARGET_LANGUAGES, parseLanguages } from '@/lib/languages';
+import { parseAdvancedQueryFields, validateTopicQuery, type TopicQuery } from '@/lib/query-builder';
+import { checkTargetAllowance, entitlements, type TargetType } from '@/lib/entitlements';
+
+// Upper bound for a list target's daily post cap
+const MAX_LIST_POSTS_PER_DAY = 200;
+
+/**
+ * Accept a raw list ID or a list URL such as https://x.com/i/lists/123
+ */
+function parseListId(input: string): string | null {
+  const match = String(input).trim().match(/(?:lists\/)?(\d+)\/?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Validate the daily post cap for a list target
+ */
+function parseMaxPostsPerDay(value: unknown): number | null {
+  const parsed = parseInt(String(value));
+  if (isNaN(parsed) || parsed < 1 || parsed > MAX_LIST_POSTS_PER_DAY) {
+    return null;
+  }
+  return parsed;
+}
+
+// Maximum number of accounts a single watchlist target can follow
+const MAX_WATCHED_ACCOUNTS = 25;
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Normalize handles ("@Name", "name ") and drop invalid or duplicate entries
+ */
+function parseHandles(input: unknown): string[] {
+  const values = Array.isArray(input) ? input : String(input || '').split(/[\s,]+/);
+  const handles = values
+    .map(h => String(h).trim().replace(/^@/, ''))
+    .filter(h => /^[A-Za-z0-9_]{1,15}$/.test(h));
+  return Array.from(new Map(handles.map(h => [h.toLowerCase(), h])).values());
+}
+
+/**
+ * Resolve handles to X user ids, reporting the ones that don't exist
+ */
+async function resolveHandles(handles: string[]) {
+  const users = await TwitterApiService.createAppOnlyService().getUsersByUsernames(handles);
+  const found = new Set(users.map(u => u.username.toLowerCase()));
+  return {
+    users,
+    missing: handles.filter(h => !found.has(h.toLowerCase()))
+  };
+}
+
+/**
+ * Replace the watched accounts of a target, keeping since-id cursors of accounts that stay
+ */
+async function syncAccountTargets(supabase: SupabaseServerClient, targetId: string, users: TwitterUser[]) {
+  const { data: existing } = await supabase
+    .from('account_targets')
+    .select('twitter_user_id')
+    .eq('monitoring_target_id', targetId);
+
+  const existingIds = new Set((existing || []).map(a => a.twitter_user_id));
+  const keepIds = new Set(users.map(u => u.id));
+  const removedIds = Array.from(existingIds).filter(id => !keepIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('account_targets')
+      .delete()
+      .eq('monitoring_target_id', targetId)
+      .in('twitter_user_id', removedIds);
+
+    if (error) {
+      console.error('Error removing watched accounts:', error);
+      return { error: 'Failed to update watched accounts', status: 500 };
+    }
+  }
+
+  const { error } = await supabase
+    .from('account_targets')
+    .upsert(users.map(user => ({
+      monitoring_target_id: targetId,
+      twitter_user_id: user.id,
+      twitter_handle: user.username,
+      display_name: user.name,
+      updated_at: new Date().toISOString()
+    })), {
+      onConflict: 'monitoring_target_id,twitter_user_id'
+    });
+
+  if (error) {
+    console.error('Error saving watched accounts:', error);
+    return { error: 'Failed to update watched accounts', status: 500 };
+  }
+
+  return { error: null, status: 200 };
+}
+
+/**
+ * Check the user's plan allows one more target of this type
+ * Returns a 403 response naming the plan that would allow it, or null when allowed
+ */
+async function checkTargetEntitlements(supabase: SupabaseServerClient, userId: string, targetType: TargetType) {
+  const { count, error } = await supabase
+    .from('monitoring_targets')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .neq('status', 'archived');
+
+  if (error) {
+    console.error('Error counting monitoring targets:', error);
+    return NextResponse.json({ error: 'Failed to check target limits' }, { status: 500 });
+  }
+
+  const activeTargetCount = count || 0;
+  const current = await entitlements.getEntitlements(userId);
+  const reason = checkTargetAllowance(current, targetType, activeTargetCount);
+  if (!reason) {
+    return null;
+  }
+
+  const upgradeTier = await entitlements.getUpgradeTier(current, targetType, activeTargetCount);
+  return NextResponse.json({
+    error: upgradeTier ? `${reason}. Upgrade to ${upgradeTier.displayName} to add this target.` : `${reason}.`,
+    upgradeRequired: true,
+    currentTier: current.tier,
+    upgradeTier: upgradeTier?.tier || null
+  }, { status: 403 });
+}
 
 // GET /api/targets - List user's monitoring targets
 export async function GET(request: NextRequest) {
@@ -20,7 +152,9 @@ export async function GET(request: NextRequest) {
       .from('monitoring_targets')
       .select(`
         *,
-        topic_targets (*)
+        topic_targets (*),
+        twitter_list_targets (*),
+        account_targets (*)
       `)
       .eq('user_id', userId)
       .order('created_at', { ascending: false });
@@ -50,20 +184,59 @@ export async function POST(request: NextRequest) {
     const userId = session.user.id;
 
     const body = await request.json();
-    const { name, keywords, hashtags, excludeKeywords, minEngagement } = body;
+    const { name, targetType = 'topic' } = body;
+
+    if (targetType !== 'topic' && targetType !== 'twitter_list' && targetType !== 'accounts') {
+      return NextResponse.json({ error: 'Unsupported target type' }, { status: 400 });
+    }
+
+    const entitlementError = await checkTargetEntitlements(supabase, userId, targetType);
+    if (entitlementError) {
+      return entitlementError;
+    }
+
+    if (targetType === 'twitter_list') {
+      return createListTarget(supabase, userId, body);
+    }
+
+    if (targetType === 'accounts') {
+      return createAccountsTarget(supabase, userId, body);
+    }
+
+    const { keywords, hashtags, excludeKeywords, minEngagement } = body;
+    const languages = body.languages !== undefined ? parseLanguages(body.languages) : DEFAULT_TARGET_LANGUAGES;
+    const advancedFields = parseAdvancedQueryFields(body);
 
     // Validate required fields
-    if (!name || (!keywords?.length && !hashtags?.length)) {
-      return NextResponse.json({ 
-        error: 'Name and at least one keyword or hashtag are required' 
-      }, { status: 400 });
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    if (!languages) {
+      return NextResponse.json({ error: 'Unsupported language' }, { status: 400 });
+    }
+
+    if (!advancedFields) {
+      return NextResponse.json({ error: 'Invalid query options' }, { status: 400 });
+    }
+
+    // The query must be something X accepts (a search term, under the length limit)
+    const queryError = validateTopicQuery({
+      keywords,
+      hashtags,
+      exclude_keywords: excludeKeywords,
+      languages,
+      ...advancedFields
+    });
+    if (queryError) {
+      return NextResponse.json({ error: queryError }, { status: 400 });
     }
 
     // Start a transaction by creating monitoring target first
     const { data: monitoringTarget, error: targetError } = await supabase
       .from('monitoring_targets')
       .insert({
-        user_id: user.id,
+        user_id: userId,
         name,
         target_type: 'topic',
         status: 'active'
@@ -85,7 +258,8 @@ export async function POST(request: NextRequest) {
         hashtags: hashtags || [],
         exclude_keywords: excludeKeywords || [],
         min_engagement: minEngagement || 0,
-        languages: ['en']
+        languages,
+        ...advancedFields
       })
       .select()
       .single();
@@ -114,6 +288,165 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Create a Twitter list target
+ * The list is looked up on X first so we only store lists we can actually read
+ */
+async function createListTarget(
+  supabase: SupabaseServerClient,
+  userId: string,
+  body: { name?: string; listId?: string; includeRetweets?: boolean; maxPostsPerDay?: number }
+) {
+  const { name, listId: rawListId, includeRetweets, maxPostsPerDay = 50 } = body;
+
+  const listId = rawListId ? parseListId(rawListId) : null;
+  if (!listId) {
+    return NextResponse.json({ error: 'A valid Twitter list ID or URL is required' }, { status: 400 });
+  }
+
+  const postsPerDay = parseMaxPostsPerDay(maxPostsPerDay);
+  if (postsPerDay === null) {
+    return NextResponse.json({ 
+      error: `Max posts per day must be between 1 and ${MAX_LIST_POSTS_PER_DAY}` 
+    }, { status: 400 });
+  }
+
+  let listDetails;
+  try {
+    listDetails = await TwitterApiService.createAppOnlyService().getList(listId);
+  } catch (error) {
+    console.error(`Error looking up Twitter list ${listId}:`, error);
+    if (error instanceof TwitterApiError && error.code !== 'rate_limited' && error.code !== 'unknown') {
+      return NextResponse.json({ error: 'Twitter list not found or is private' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to look up Twitter list' }, { status: 502 });
+  }
+
+  const { data: monitoringTarget, error: targetError } = await supabase
+    .from('monitoring_targets')
+    .insert({
+      user_id: userId,
+      name: name?.trim() || listDetails.list.name,
+      target_type: 'twitter_list',
+      status: 'active'
+    })
+    .select()
+    .single();
+
+  if (targetError) {
+    console.error('Error creating monitoring target:', targetError);
+    return NextResponse.json({ error: 'Failed to create target' }, { status: 500 });
+  }
+
+  const { data: listTarget, error: listError } = await supabase
+    .from('twitter_list_targets')
+    .insert({
+      monitoring_target_id: monitoringTarget.id,
+      twitter_list_id: listId,
+      list_name: listDetails.list.name,
+      list_owner_handle: listDetails.owner?.username || null,
+      include_retweets: !!includeRetweets,
+      max_posts_per_day: postsPerDay
+    })
+    .select()
+    .single();
+
+  if (listError) {
+    console.error('Error creating list configuration:', listError);
+    // Try to rollback by deleting the monitoring target
+    await supabase
+      .from('monitoring_targets')
+      .delete()
+      .eq('id', monitoringTarget.id);
+
+    return NextResponse.json({ error: 'Failed to create list configuration' }, { status: 500 });
+  }
+
+  return NextResponse.json({ 
+    target: { ...monitoringTarget, twitter_list_targets: listTarget } 
+  }, { status: 201 });
+}
+
+/**
+ * Create an account watchlist target
+ * Handles are resolved to user ids up front so polling never has to look them up again
+ */
+async function createAccountsTarget(
+  supabase: SupabaseServerClient,
+  userId: string,
+  body: { name?: string; handles?: string[] | string }
+) {
+  const { name } = body;
+  const handles = parseHandles(body.handles);
+
+  if (!name?.trim() || handles.length === 0) {
+    return NextResponse.json({ 
+      error: 'Name and at least one account handle are required' 
+    }, { status: 400 });
+  }
+
+  if (handles.length > MAX_WATCHED_ACCOUNTS) {
+    return NextResponse.json({ 
+      error: `A watchlist can follow at most ${MAX_WATCHED_ACCOUNTS} accounts` 
+    }, { status: 400 });
+  }
+
+  let resolved;
+  try {
+    resolved = await resolveHandles(handles);
+  } catch (error) {
+    console.error('Error resolving account handles:', error);
+    return NextResponse.json({ error: 'Failed to look up accounts on X' }, { status: 502 });
+  }
+
+  if (resolved.missing.length > 0) {
+    return NextResponse.json({ 
+      error: `Accounts not found: ${resolved.missing.map(h => `@${h}`).join(', ')}` 
+    }, { status: 400 });
+  }
+
+  const { data: monitoringTarget, error: targetError } = await supabase
+    .from('monitoring_targets')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      target_type: 'accounts',
+      status: 'active'
+    })
+    .select()
+    .single();
+
+  if (targetError) {
+    console.error('Error creating monitoring target:', targetError);
+    return NextResponse.json({ error: 'Failed to create target' }, { status: 500 });
+  }
+
+  const { data: accountTargets, error: accountsError } = await supabase
+    .from('account_targets')
+    .insert(resolved.users.map(user => ({
+      monitoring_target_id: monitoringTarget.id,
+      twitter_user_id: user.id,
+      twitter_handle: user.username,
+      display_name: user.name
+    })))
+    .select();
+
+  if (accountsError) {
+    console.error('Error creating watched accounts:', accountsError);
+    // Try to rollback by deleting the monitoring target
+    await supabase
+      .from('monitoring_targets')
+      .delete()
+      .eq('id', monitoringTarget.id);
+
+    return NextResponse.json({ error: 'Failed to create watched accounts' }, { status: 500 });
+  }
+
+  return NextResponse.json({ 
+    target: { ...monitoringTarget, account_targets: accountTargets } 
+  }, { status: 201 });
+}
+
 // PUT /api/targets?id=<target_id> - Update a target
 export async function PUT(request: NextRequest) {
   try {
@@ -134,12 +467,36 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, keywords, hashtags, excludeKeywords, minEngagement, status } = body;
+    const { name, keywords, hashtags, excludeKeywords, minEngagement, status, includeRetweets, maxPostsPerDay } = body;
+    const handles = body.handles !== undefined ? parseHandles(body.handles) : undefined;
+    const languages = body.languages !== undefined ? parseLanguages(body.languages) : undefined;
+    const advancedFields = parseAdvancedQueryFields(body);
+
+    if (languages === null) {
+      return NextResponse.json({ error: 'Unsupported language' }, { status: 400 });
+    }
+
+    if (!advancedFields) {
+      return NextResponse.json({ error: 'Invalid query options' }, { status: 400 });
+    }
+
+    if (handles !== undefined && (handles.length === 0 || handles.length > MAX_WATCHED_ACCOUNTS)) {
+      return NextResponse.json({ 
+        error: `A watchlist must follow between 1 and ${MAX_WATCHED_ACCOUNTS} accounts` 
+      }, { status: 400 });
+    }
+
+    const postsPerDay = maxPostsPerDay !== undefined ? parseMaxPostsPerDay(maxPostsPerDay) : undefined;
+    if (postsPerDay === null) {
+      return NextResponse.json({ 
+        error: `Max posts per day must be between 1 and ${MAX_LIST_POSTS_PER_DAY}` 
+      }, { status: 400 });
+    }
 
     // Verify target ownership
     const { data: existingTarget, error: fetchError } = await supabase
       .from('monitoring_targets')
-      .select('id')
+      .select('id, status, target_type')
       .eq('id', targetId)
       .eq('user_id', userId)
       .single();
@@ -148,6 +505,68 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Target not found' }, { status: 404 });
     }
 
+    // Restoring an archived target counts against the plan like creating one
+    if (status && status !== 'archived' && existingTarget.status === 'archived') {
+      const entitlementError = await checkTargetEntitlements(supabase, userId, existingTarget.target_type);
+      if (entitlementError) {
+        return entitlementError;
+      }
+    }
+
+    const hasTopicChanges = keywords !== undefined || hashtags !== undefined || excludeKeywords !== undefined ||
+      minEngagement !== undefined || languages !== undefined || Object.keys(advancedFields).length > 0;
+    const hasListChanges = includeRetweets !== undefined || postsPerDay !== undefined;
+
+    // Each group of settings only applies to its own kind of target
+    if (hasTopicChanges && existingTarget.target_type !== 'topic') {
+      return NextResponse.json({ error: 'Query settings only apply to topic targets' }, { status: 400 });
+    }
+    if (hasListChanges && existingTarget.target_type !== 'twitter_list') {
+      return NextResponse.json({ error: 'List settings only apply to list targets' }, { status: 400 });
+    }
+    if (handles !== undefined && existingTarget.target_type !== 'accounts') {
+      return NextResponse.json({ error: 'Accounts only apply to watchlist targets' }, { status: 400 });
+    }
+
+    // Look up watched accounts before writing anything, so a missing handle leaves the target as it was
+    let watchedUsers: TwitterUser[] | undefined;
+    if (handles !== undefined) {
+      let resolved;
+      try {
+        resolved = await resolveHandles(handles);
+      } catch (error) {
+        console.error('Error resolving account handles:', error);
+        return NextResponse.json({ error: 'Failed to look up accounts on X' }, { status: 502 });
+      }
+
+      if (resolved.missing.length > 0) {
+        return NextResponse.json({
+          error: `Accounts not found: ${resolved.missing.map(h => `@${h}`).join(', ')}`
+        }, { status: 400 });
+      }
+      watchedUsers = resolved.users;
+    }
+
+    // Validate the query the target will end up with before writing anything
+    const topicChanges: Partial<TopicQuery> = { ...advancedFields };
+    if (keywords !== undefined) topicChanges.keywords = keywords || [];
+    if (hashtags !== undefined) topicChanges.hashtags = hashtags || [];
+    if (excludeKeywords !== undefined) topicChanges.exclude_keywords = excludeKeywords || [];
+    if (languages !== undefined) topicChanges.languages = languages;
+
+    if (Object.keys(topicChanges).length > 0) {
+      const { data: currentTopic } = await supabase
+        .from('topic_targets')
+        .select('*')
+        .eq('monitoring_target_id', targetId)
+        .maybeSingle();
+
+      const queryError = currentTopic ? validateTopicQuery({ ...currentTopic, ...topicChanges }) : null;
+      if (queryError) {
+        return NextResponse.json({ error: queryError }, { status: 400 });
+      }
+    }
+
     // Update monitoring target
     const updateData: any = { updated_at: new Date().toISOString() };
     if (name) updateData.name = name;
@@ -164,11 +583,8 @@ export async function PUT(request: NextRequest) {
     }
 
     // Update topic configuration if topic-related fields are provided
-    if (keywords !== undefined || hashtags !== undefined || excludeKeywords !== undefined || minEngagement !== undefined) {
-      const topicUpdateData: any = { updated_at: new Date().toISOString() };
-      if (keywords !== undefined) topicUpdateData.keywords = keywords || [];
-      if (hashtags !== undefined) topicUpdateData.hashtags = hashtags || [];
-      if (excludeKeywords !== undefined) topicUpdateData.exclude_keywords = excludeKeywords || [];
+    if (hasTopicChanges) {
+      const topicUpdateData: any = { ...topicChanges, updated_at: new Date().toISOString() };
       if (minEngagement !== undefined) topicUpdateData.min_engagement = minEngagement || 0;
 
       const { error: topicError } = await supabase
@@ -182,12 +598,39 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    // Update list configuration if list-related fields are provided
+    if (hasListChanges) {
+      const listUpdateData: Record<string, string | number | boolean> = { updated_at: new Date().toISOString() };
+      if (includeRetweets !== undefined) listUpdateData.include_retweets = !!includeRetweets;
+      if (postsPerDay !== undefined) listUpdateData.max_posts_per_day = postsPerDay;
+
+      const { error: listError } = await supabase
+        .from('twitter_list_targets')
+        .update(listUpdateData)
+        .eq('monitoring_target_id', targetId);
+
+      if (listError) {
+        console.error('Error updating list configuration:', listError);
+        return NextResponse.json({ error: 'Failed to update list configuration' }, { status: 500 });
+      }
+    }
+
+    // Replace watched accounts if handles are provided
+    if (watchedUsers) {
+      const syncResult = await syncAccountTargets(supabase, targetId, watchedUsers);
+      if (syncResult.error) {
+        return NextResponse.json({ error: syncResult.error }, { status: syncResult.status });
+      }
+    }
+
     // Fetch and return updated target
     const { data: updatedTarget, error: finalError } = await supabase
       .from('monitoring_targets')
       .select(`
         *,
-        topic_targets (*)
+        topic_targets (*),
+        twitter_list_targets (*),
+        account_targets (*)
       `)
       .eq('id', targetId)
       .single();
@@ -222,7 +665,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Target ID is required' }, { status: 400 });
     }
 
-    // Verify ownership and delete (cascade will handle topic_targets)
+    // Verify ownership and delete (cascade will handle the type-specific configuration)
     const { error } = await supabase
       .from('monitoring_targets')
       .delete()
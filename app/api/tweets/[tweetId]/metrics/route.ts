@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import TwitterApiService from '@/lib/twitter-api';
+import TwitterApiService, { TwitterApiError } from '@/lib/twitter-api';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/auth';
 
@@ -58,7 +58,7 @@ export async function GET(
     }
 
     // Fetch fresh metrics from Twitter API
-    const twitterService = new TwitterApiService(profile.twitter_access_token);
+    const twitterService = await TwitterApiService.createForUser(userId);
     const tweetMetrics = await twitterService.getTweetMetrics(params.tweetId);
 
     if (!tweetMetrics) {
@@ -94,6 +94,12 @@ export async function GET(
   } catch (error: unknown) {
     console.error('Error fetching tweet metrics:', error);
 
+    if (error instanceof TwitterApiError && error.code === 'unauthorized') {
+      return NextResponse.json({
+        error: 'Twitter authentication expired. Please reconnect your Twitter account.'
+      }, { status: 401 });
+    }
+
     if (error instanceof Error && error.message?.includes('rate limit')) {
       return NextResponse.json({
         error: 'Twitter API rate limit reached'
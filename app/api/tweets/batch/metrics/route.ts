@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import TwitterApiService from '@/lib/twitter-api';
+import TwitterApiService, { TwitterApiError } from '@/lib/twitter-api';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/auth';
 
@@ -93,7 +93,7 @@ export async function POST(request: NextRequest) {
 
     // Fetch fresh metrics for stale tweets
     if (staleIds.length > 0) {
-      const twitterService = new TwitterApiService(profile.twitter_access_token);
+      const twitterService = await TwitterApiService.createForUser(userId);
       const tweets = await twitterService.getTweetsMetrics(staleIds);
 
       // Process and cache fresh metrics
@@ -134,6 +134,12 @@ export async function POST(request: NextRequest) {
   } catch (error: unknown) {
     console.error('Error fetching batch metrics:', error);
 
+    if (error instanceof TwitterApiError && error.code === 'unauthorized') {
+      return NextResponse.json({
+        error: 'Twitter authentication expired. Please reconnect your Twitter account.'
+      }, { status: 401 });
+    }
+
     if (error instanceof Error && error.message?.includes('rate limit')) {
       return NextResponse.json({
         error: 'Twitter API rate limit reached'
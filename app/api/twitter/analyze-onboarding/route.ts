@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import TwitterApiService, { TwitterTweet } from '@/lib/twitter-api';
-import OpenAI from 'openai';
+import { llmClient } from '@/lib/llm-provider';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/auth';
 
@@ -26,6 +26,15 @@ interface VoiceAnalysis {
   interests: string[];  // e.g., ["ai", "entrepreneurship"]
 }
 
+// Topic suggestion as returned by the model, before validation
+interface RawTopicSuggestion {
+  name?: string;
+  keywords?: string[];
+  hashtags?: string[];
+  confidence?: number;
+  reason?: string;
+}
+
 interface CombinedAnalysisResponse {
   success: boolean;
   tweets: TwitterTweet[];
@@ -43,11 +52,6 @@ interface CombinedAnalysisResponse {
   };
 }
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
-
 export async function POST(): Promise<NextResponse<CombinedAnalysisResponse | { error: string }>> {
   try {
     const session = await getServerSession(authOptions);
@@ -86,8 +90,8 @@ export async function POST(): Promise<NextResponse<CombinedAnalysisResponse | {
       });
     }
 
-    // Initialize Twitter API service with app-only authentication
-    const twitterService = TwitterApiService.createAppOnlyService();
+    // Initialize Twitter API service with app-only authentication, recording reads against the user
+    const twitterService = TwitterApiService.createAppOnlyService({ userId });
 
     // Fetch user's recent tweets (fetch more for better analysis)
     console.log(`Fetching tweets for @${profile.twitter_handle} for combined analysis`);
@@ -116,27 +120,11 @@ export async function POST(): Promise<NextResponse<CombinedAnalysisResponse | {
 
     // Run both analyses in parallel for better performance
     const [topicSuggestions, voiceAnalysis] = await Promise.all([
-      analyzePostsForTopics(userTweets),
-      analyzeVoiceStyle(userTweets)
+      analyzePostsForTopics(userTweets, userId),
+      analyzeVoiceStyle(userTweets, userId)
     ]);
 
-    // Log API usage (Twitter API + 2 OpenAI calls)
-    // Cost breakdown:
-    // - Twitter API: ~$0.0001 per tweet
-    // - OpenAI Topic Analysis: ~$0.002 per analysis (gpt-4o-mini)
-    // - OpenAI Voice Analysis: ~$0.002 per analysis (gpt-4o-mini)
-    const twitterCost = userTweets.length * 0.0001;
-    const openaiCost = 0.004; // Two OpenAI calls at ~$0.002 each
-    
-    await supabase
-      .from('api_usage_log')
-      .insert({
-        user_id: userId,
-        operation_type: 'combined_onboarding_analysis',
-        posts_fetched: userTweets.length,
-        estimated_cost_usd: twitterCost + openaiCost,
-        created_at: new Date().toISOString()
-      });
+    // The tweet fetch and both LLM calls recorded their own api_usage_log rows
 
     return NextResponse.json({
       success: true,
@@ -197,12 +185,12 @@ export async function POST(): Promise<NextResponse<CombinedAnalysisResponse | {
   }
 }
 
-// Topic analysis using OpenAI
-async function analyzePostsForTopics(tweets: TwitterTweet[]): Promise<TopicSuggestion[]> {
+// Topic analysis using the LLM
+async function analyzePostsForTopics(tweets: TwitterTweet[], userId: string): Promise<TopicSuggestion[]> {
   try {
-    // If OpenAI API key is not configured, fall back to default suggestions
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === 'your-openai-api-key') {
-      console.log('OpenAI API key not configured, using fallback logic');
+    // If no LLM is configured, fall back to default suggestions
+    if (!llmClient.isConfigured()) {
+      console.log('LLM provider not configured, using fallback logic');
       return getDefaultTopicSuggestions();
     }
 
@@ -211,7 +199,7 @@ async function analyzePostsForTopics(tweets: TwitterTweet[]): Promise<TopicSugge
       `Tweet ${index + 1}: ${tweet.text}`
     ).join('\n');
 
-    // Create a comprehensive prompt for OpenAI
+    // Create a comprehensive prompt for the LLM
     const prompt = `
       Analyze the user's recent tweets to identify recurring patterns and themes. 
       Suggest exactly 4 distinct, niche topic monitoring targets for X searches to find engagement opportunities.
@@ -245,8 +233,11 @@ async function analyzePostsForTopics(tweets: TwitterTweet[]): Promise<TopicSugge
       ]
     `;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    // JSON mode returns an object, so the array may come wrapped in "suggestions" or "topics"
+    const { data: parsedResponse } = await llmClient.completeJson<
+      RawTopicSuggestion[] | { suggestions?: RawTopicSuggestion[]; topics?: RawTopicSuggestion[] }
+    >({
+      task: 'topic_analysis',
       messages: [
         {
           role: "system",
@@ -258,32 +249,17 @@ async function analyzePostsForTopics(tweets: TwitterTweet[]): Promise<TopicSugge
         }
       ],
       temperature: 0.7,
-      max_tokens: 1000,
-      response_format: { type: "json_object" }
+      maxTokens: 1000,
+      context: { userId }
     });
 
-    const response = completion.choices[0]?.message?.content;
-    if (!response) {
-      console.error('No response from OpenAI');
-      return getDefaultTopicSuggestions();
-    }
-
-    // Parse the JSON response
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(response);
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError);
-      return getDefaultTopicSuggestions();
-    }
-
     // Extract suggestions array from the response
     const suggestionsArray = Array.isArray(parsedResponse) 
       ? parsedResponse 
       : parsedResponse.suggestions || parsedResponse.topics || [];
 
-    // Map the OpenAI suggestions to our TopicSuggestion format
-    const suggestions: TopicSuggestion[] = suggestionsArray.map((suggestion: any) => {
+    // Map the model's suggestions to our TopicSuggestion format
+    const suggestions: TopicSuggestion[] = suggestionsArray.map((suggestion) => {
       // Find related posts for each suggestion
       const relatedPosts = tweets.filter(tweet => {
         const tweetLower = tweet.text.toLowerCase();
@@ -312,17 +288,17 @@ async function analyzePostsForTopics(tweets: TwitterTweet[]): Promise<TopicSugge
 
     return suggestions.slice(0, 4);
   } catch (error) {
-    console.error('Error calling OpenAI API:', error);
+    console.error('Error running LLM topic analysis:', error);
     return getDefaultTopicSuggestions();
   }
 }
 
-// Voice and style analysis using OpenAI
-async function analyzeVoiceStyle(tweets: TwitterTweet[]): Promise<VoiceAnalysis> {
+// Voice and style analysis using the LLM
+async function analyzeVoiceStyle(tweets: TwitterTweet[], userId: string): Promise<VoiceAnalysis> {
   try {
-    // If OpenAI API key is not configured, fall back to programmatic analysis
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === 'your-openai-api-key') {
-      console.log('OpenAI API key not configured, using programmatic voice analysis');
+    // If no LLM is configured, fall back to programmatic analysis
+    if (!llmClient.isConfigured()) {
+      console.log('LLM provider not configured, using programmatic voice analysis');
       return getProgrammaticVoiceAnalysis(tweets);
     }
 
@@ -354,8 +330,12 @@ async function analyzeVoiceStyle(tweets: TwitterTweet[]): Promise<VoiceAnalysis>
       }
     `;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const { data: parsedResponse } = await llmClient.completeJson<{
+      voicePersonality?: string;
+      communicationStyle?: string;
+      interests?: string[];
+    }>({
+      task: 'voice_analysis',
       messages: [
         {
           role: "system",
@@ -368,26 +348,11 @@ async function analyzeVoiceStyle(tweets: TwitterTweet[]): Promise<VoiceAnalysis>
         }
       ],
       temperature: 0.3, // Lower temperature for more consistent analysis
-      max_tokens: 800,
-      response_format: { type: "json_object" }
+      maxTokens: 800,
+      context: { userId }
     });
 
-    const response = completion.choices[0]?.message?.content;
-    if (!response) {
-      console.error('No response from OpenAI for voice analysis');
-      return getProgrammaticVoiceAnalysis(tweets);
-    }
-
-    // Parse the JSON response
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(response);
-    } catch (parseError) {
-      console.error('Error parsing OpenAI voice analysis response:', parseError);
-      return getProgrammaticVoiceAnalysis(tweets);
-    }
-
-    // Map OpenAI response to our VoiceAnalysis format
+    // Map the model's response to our VoiceAnalysis format
     const voiceAnalysis: VoiceAnalysis = {
       sampleTweets: tweetTexts.slice(0, 3),
       voicePersonality: parsedResponse.voicePersonality || 'Professional and informative with a helpful tone',
@@ -395,11 +360,11 @@ async function analyzeVoiceStyle(tweets: TwitterTweet[]): Promise<VoiceAnalysis>
       interests: Array.isArray(parsedResponse.interests) ? parsedResponse.interests : ['technology', 'business']
     };
 
-    console.log('OpenAI voice analysis completed successfully');
+    console.log('LLM voice analysis completed successfully');
     return voiceAnalysis;
 
   } catch (error) {
-    console.error('Error calling OpenAI API for voice analysis:', error);
+    console.error('Error running LLM voice analysis:', error);
     return getProgrammaticVoiceAnalysis(tweets);
   }
 }
@@ -38,21 +38,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Initialize Twitter API service
-    const twitterService = new TwitterApiService(profile.twitter_access_token);
+    const twitterService = await TwitterApiService.createForUser(userId);
 
     // Generate smart discovery suggestions
     const suggestions = await twitterService.generateSmartDiscovery(analysis);
 
-    // Log API usage for list fetching
-    await supabase
-      .from('api_usage_log')
-      .insert({
-        user_id: userId,
-        operation_type: 'smart_discovery',
-        posts_fetched: suggestions.suggestedLists.length, // Lists fetched
-        estimated_cost_usd: suggestions.suggestedLists.length * 0.0001,
-        created_at: new Date().toISOString()
-      });
+    // List lookups are recorded in api_usage_log by the Twitter API service
 
     return NextResponse.json({ 
       success: true, 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/auth';
+import { parseVoiceSettings } from '@/lib/voice-profile';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,18 +18,30 @@ export async function POST(request: NextRequest) {
     // Get the analysis data from request body
     const { analysis } = await request.json();
 
-    if (!analysis) {
+    if (!analysis || typeof analysis !== 'object') {
       return NextResponse.json({ 
         error: 'Analysis data required' 
       }, { status: 400 });
     }
 
+    const { settings, error: settingsError } = parseVoiceSettings(analysis);
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 });
+    }
+
+    // Fields that aren't sent keep their saved values, so rules can be updated on their own
+    const { data: existing } = await supabase
+      .from('voice_profiles')
+      .select('analysis')
+      .eq('user_id', userId)
+      .maybeSingle();
+
     // Upsert the voice profile
     const { error: upsertError } = await supabase
       .from('voice_profiles')
       .upsert({
         user_id: userId,
-        analysis,
+        analysis: { ...(existing?.analysis || {}), ...settings },
         updated_at: new Date().toISOString()
       });
 
@@ -2,6 +2,22 @@ import NextAuth from "next-auth"
 import type { NextAuthOptions } from "next-auth"
 import TwitterProvider from "next-auth/providers/twitter"
 import { SupabaseAdapter } from "@auth/supabase-adapter"
+import { TokenEncryption } from "@/lib/token-encryption"
+
+const baseAdapter = SupabaseAdapter({
+  url: process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  secret: process.env.SUPABASE_SERVICE_ROLE_KEY!,
+})
+
+// The adapter keeps its own copy of the provider tokens in next_auth.accounts; encrypt those too
+const supabaseAdapter: typeof baseAdapter = {
+  ...baseAdapter,
+  linkAccount: (account) => baseAdapter.linkAccount!({
+    ...account,
+    access_token: account.access_token ? TokenEncryption.encrypt(account.access_token) : account.access_token,
+    refresh_token: account.refresh_token ? TokenEncryption.encrypt(account.refresh_token) : account.refresh_token,
+  }),
+}
 
 export const authOptions: NextAuthOptions = {
   debug: true,
@@ -28,10 +44,7 @@ export const authOptions: NextAuthOptions = {
       }
     })
   ],
-  adapter: SupabaseAdapter({
-    url: process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    secret: process.env.SUPABASE_SERVICE_ROLE_KEY!,
-  }),
+  adapter: supabaseAdapter,
   session: {
     strategy: "jwt",
     maxAge: 30 * 24 * 60 * 60, // 30 days
@@ -64,13 +77,28 @@ export const authOptions: NextAuthOptions = {
           }
         }
 
+        // NextAuth reports expires_at in seconds since epoch
+        const tokenExpiresAt = account.expires_at
+          ? new Date(account.expires_at * 1000).toISOString()
+          : null
+
+        // Tokens are never written to the database in plaintext
+        const encryptedAccessToken = account.access_token
+          ? TokenEncryption.encrypt(account.access_token)
+          : null
+        const encryptedRefreshToken = account.refresh_token
+          ? TokenEncryption.encrypt(account.refresh_token)
+          : null
+
         // First, create or update users_profiles with Twitter data
         const profileData = {
           id: user.id,
           twitter_handle: twitterUsername,
           twitter_user_id: account.providerAccountId,
-          twitter_access_token: account.access_token || null,
-          twitter_refresh_token: account.refresh_token || null,
+          twitter_access_token: encryptedAccessToken,
+          twitter_refresh_token: encryptedRefreshToken,
+          twitter_token_expires_at: tokenExpiresAt,
+          twitter_needs_reconnect: false,
           onboarding_completed: false,
           subscription_tier: 'free',
           timezone: 'UTC',
@@ -97,8 +125,10 @@ export const authOptions: NextAuthOptions = {
           const updateData = {
             twitter_handle: twitterUsername,
             twitter_user_id: account.providerAccountId,
-            twitter_access_token: account.access_token || null,
-            twitter_refresh_token: account.refresh_token || null,
+            twitter_access_token: encryptedAccessToken,
+            twitter_refresh_token: encryptedRefreshToken,
+            twitter_token_expires_at: tokenExpiresAt,
+            twitter_needs_reconnect: false,
             updated_at: new Date().toISOString(),
           }
 
@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Hash, List, X, CheckCircle, Loader2, Sparkles } from "lucide-react";
 import { createClient } from "@/lib/supabase/client";
+import { TargetTestRun } from "@/components/targets/target-test-run";
 
 interface TargetSetupStepProps {
   userId: string;
@@ -412,6 +413,11 @@ export function TargetSetupStep({ userId, onComplete, targetsCount, twitterAnaly
                   />
                 </div>
 
+                <TargetTestRun
+                  draft={{ keywords: target.keywords, hashtags: target.hashtags }}
+                  disabled={target.keywords.length === 0 && target.hashtags.length === 0}
+                />
+
                 <div className="space-y-2">
                   <Label htmlFor={`description-${index}`}>Description (Optional)</Label>
                   <Textarea
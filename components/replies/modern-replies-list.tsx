@@ -3,6 +3,9 @@
 import { ModernReplyCard } from './modern-reply-card';
 import { Loader2 } from 'lucide-react';
 import { isToday, isYesterday, format } from 'date-fns';
+import type { PostReplyResult, RegenerateVariantsResult } from '@/app/actions/reply-actions';
+import type { ReplyStyle, ReplyVariant } from '@/lib/reply-variants';
+import type { ThreadContext } from '@/lib/thread-context';
 
 interface Reply {
   id: string;
@@ -10,23 +13,36 @@ interface Reply {
   user_edited_reply?: string;
   status: string;
   created_at: string;
+  scheduled_for?: string | null;
+  post_error_message?: string | null;
+  selected_variant_id?: string | null;
+  version?: number;
+  reply_variants?: ReplyVariant[];
   curated_post: {
     twitter_post_id: string;
     post_content: string;
     post_author_handle: string;
     post_author_id?: string;
+    post_author_name?: string | null;
+    post_author_avatar_url?: string | null;
+    post_author_verified?: boolean | null;
     post_url: string;
     post_created_at?: string;
     engagement_score?: number;
     relevance_score?: number;
+    thread_context?: ThreadContext | null;
   };
 }
 
 interface ModernRepliesListProps {
   replies: Reply[];
-  onPost: (id: string, replyText: string) => Promise<void>;
+  onPost: (id: string, replyText: string) => Promise<PostReplyResult>;
   onReject: (id: string) => Promise<void>;
+  onSchedule: (id: string, replyText: string, scheduledFor?: string) => Promise<PostReplyResult>;
+  onUnschedule: (id: string) => Promise<void>;
   onEdit: (id: string, newText: string) => Promise<void>;
+  onSelectVariant: (id: string, variantId: string) => Promise<void>;
+  onRegenerate: (id: string, style: ReplyStyle, instruction?: string) => Promise<RegenerateVariantsResult>;
   isLoading?: boolean;
 }
 
@@ -34,7 +50,11 @@ export function ModernRepliesList({
   replies,
   onPost,
   onReject,
+  onSchedule,
+  onUnschedule,
   onEdit,
+  onSelectVariant,
+  onRegenerate,
   isLoading = false
 }: ModernRepliesListProps) {
 
@@ -127,7 +147,11 @@ export function ModernRepliesList({
                   reply={reply}
                   onPost={onPost}
                   onReject={onReject}
+                  onSchedule={onSchedule}
+                  onUnschedule={onUnschedule}
                   onEdit={onEdit}
+                  onSelectVariant={onSelectVariant}
+                  onRegenerate={onRegenerate}
                 />
               ))}
             </div>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { Card } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
@@ -14,9 +15,33 @@ import {
   Save,
   Sparkles,
   Clock,
-  ExternalLink
+  ExternalLink,
+  AlertCircle,
+  CalendarClock,
+  BadgeCheck,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw
 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
 import { format } from 'date-fns';
+import type { PostReplyResult, RegenerateVariantsResult } from '@/app/actions/reply-actions';
+import {
+  currentVariants,
+  DEFAULT_REPLY_STYLE,
+  MAX_INSTRUCTION_LENGTH,
+  REPLY_STANCES,
+  REPLY_TONES,
+  sortVariants,
+  type ReplyStyle,
+  type ReplyTone,
+  type ReplyVariant
+} from '@/lib/reply-variants';
+import type { ThreadContext } from '@/lib/thread-context';
+import type { ReplyLength } from '@/lib/voice-profile';
+
+const TONE_OPTIONS = Object.keys(REPLY_TONES) as ReplyTone[];
+const LENGTH_OPTIONS: ReplyLength[] = ['short', 'medium', 'long'];
 
 interface ModernReplyCardProps {
   reply: {
@@ -25,41 +50,84 @@ interface ModernReplyCardProps {
     user_edited_reply?: string;
     status: string;
     created_at: string;
+    scheduled_for?: string | null;
+    post_error_message?: string | null;
+    selected_variant_id?: string | null;
+    version?: number;
+    reply_variants?: ReplyVariant[];
     curated_post: {
       twitter_post_id: string;
       post_content: string;
       post_author_handle: string;
       post_author_id?: string;
+      post_author_name?: string | null;
+      post_author_avatar_url?: string | null;
+      post_author_verified?: boolean | null;
       post_url: string;
       post_created_at?: string;
       engagement_score?: number;
       relevance_score?: number;
+      thread_context?: ThreadContext | null;
     };
   };
-  onPost: (id: string, replyText: string) => Promise<void>;
+  onPost: (id: string, replyText: string) => Promise<PostReplyResult>;
   onReject: (id: string) => Promise<void>;
+  onSchedule: (id: string, replyText: string, scheduledFor?: string) => Promise<PostReplyResult>;
+  onUnschedule: (id: string) => Promise<void>;
   onEdit: (id: string, newText: string) => Promise<void>;
+  onSelectVariant: (id: string, variantId: string) => Promise<void>;
+  onRegenerate: (id: string, style: ReplyStyle, instruction?: string) => Promise<RegenerateVariantsResult>;
+}
+
+/**
+ * Position of the variant being shown: the user's pick, else the one matching the suggestion
+ */
+function shownVariantIndex(variants: ReplyVariant[], selectedId: string | null | undefined, suggestedReply: string): number {
+  const index = variants.findIndex(variant => selectedId ? variant.id === selectedId : variant.content === suggestedReply);
+  return Math.max(0, index);
 }
 
-export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReplyCardProps) {
+export function ModernReplyCard({
+  reply,
+  onPost,
+  onReject,
+  onSchedule,
+  onUnschedule,
+  onEdit,
+  onSelectVariant,
+  onRegenerate
+}: ModernReplyCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedReply, setEditedReply] = useState(reply.user_edited_reply || reply.suggested_reply);
   const [isLoading, setIsLoading] = useState(false);
   const [isAnimatingOut, setIsAnimatingOut] = useState(false);
   const [shouldHide, setShouldHide] = useState(false);
   const [showSkippedMessage, setShowSkippedMessage] = useState(false);
+  const [postError, setPostError] = useState<PostReplyResult['error'] | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [variants, setVariants] = useState(() => sortVariants(currentVariants(reply.reply_variants, reply.version)));
+  const [version, setVersion] = useState(reply.version ?? 1);
+  const [instruction, setInstruction] = useState('');
+  const [variantIndex, setVariantIndex] = useState(() =>
+    shownVariantIndex(variants, reply.selected_variant_id, reply.suggested_reply)
+  );
+  const [style, setStyle] = useState<ReplyStyle>(() => {
+    const shown = variants[variantIndex];
+    return shown ? { tone: shown.tone, length: shown.length } : DEFAULT_REPLY_STYLE;
+  });
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+  const [showTopReplies, setShowTopReplies] = useState(false);
 
-  // Extract username from URL if handle is just a numeric ID
-  const extractUsernameFromUrl = (url: string) => {
-    const match = url.match(/twitter\.com\/([^\/]+)\/status/i) || url.match(/x\.com\/([^\/]+)\/status/i);
-    return match ? match[1] : null;
-  };
-
+  // Posts curated before author details were stored only have the numeric author id as handle
   const authorHandle = reply.curated_post.post_author_handle;
-  const isNumericHandle = /^\d+$/.test(authorHandle);
-  const extractedUsername = extractUsernameFromUrl(reply.curated_post.post_url);
-  const displayHandle = isNumericHandle && extractedUsername ? extractedUsername : authorHandle;
-  const displayName = isNumericHandle && extractedUsername ? extractedUsername : authorHandle;
+  const hasHandle = !/^\d+$/.test(authorHandle);
+  const displayHandle = hasHandle ? authorHandle : null;
+  const displayName = reply.curated_post.post_author_name || displayHandle || 'X user';
+  const avatarUrl = reply.curated_post.post_author_avatar_url;
+  const threadContext = reply.curated_post.thread_context;
+  const contextAuthor = (handle: string | null) => handle ? `@${handle}` : 'X user';
 
   // Hide skipped cards immediately when filter changes
   useEffect(() => {
@@ -70,8 +138,44 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
 
   const handlePost = async () => {
     setIsLoading(true);
+    setPostError(null);
+    try {
+      const result = await onPost(reply.id, editedReply);
+      if (!result.success) {
+        setPostError(result.error ?? null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSchedule = async (scheduledFor?: string) => {
+    setIsLoading(true);
+    setPostError(null);
     try {
-      await onPost(reply.id, editedReply);
+      const result = await onSchedule(
+        reply.id,
+        editedReply,
+        scheduledFor ? new Date(scheduledFor).toISOString() : undefined
+      );
+      if (result.success) {
+        setIsScheduling(false);
+        setScheduleAt('');
+      } else {
+        setPostError(result.error ?? null);
+      }
+    } catch (error) {
+      console.error('Error scheduling reply:', error);
+      setPostError({ code: 'unknown', message: 'Could not schedule this reply. Please try again.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnschedule = async () => {
+    setIsLoading(true);
+    try {
+      await onUnschedule(reply.id);
     } finally {
       setIsLoading(false);
     }
@@ -108,6 +212,43 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
     }
   };
 
+  const handleCycleVariant = async (step: number) => {
+    const nextIndex = (variantIndex + step + variants.length) % variants.length;
+    setVariantIndex(nextIndex);
+    setEditedReply(variants[nextIndex].content);
+    setIsLoading(true);
+    try {
+      await onSelectVariant(reply.id, variants[nextIndex].id);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsLoading(true);
+    setIsRegenerating(true);
+    setRegenerateError(null);
+    try {
+      const result = await onRegenerate(reply.id, style, instruction);
+      if (result.success && result.variants && result.suggestedReply) {
+        const sorted = sortVariants(result.variants);
+        setVariants(sorted);
+        setVariantIndex(shownVariantIndex(sorted, null, result.suggestedReply));
+        setEditedReply(result.suggestedReply);
+        setVersion(result.version ?? version + 1);
+        setInstruction('');
+      } else {
+        setRegenerateError(result.error ?? 'Could not generate new replies');
+      }
+    } catch (error) {
+      console.error('Error regenerating reply:', error);
+      setRegenerateError('Could not generate new replies');
+    } finally {
+      setIsRegenerating(false);
+      setIsLoading(false);
+    }
+  };
+
   const handleCancelEdit = () => {
     setEditedReply(reply.user_edited_reply || reply.suggested_reply);
     setIsEditing(false);
@@ -125,6 +266,8 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
   const isPosted = reply.status === 'posted';
   const isSkipped = reply.status === 'skipped';
   const isPending = reply.status === 'pending';
+  const isScheduled = reply.status === 'scheduled' || reply.status === 'posting';
+  const isFailed = reply.status === 'failed';
 
   // Don't render if animation is complete and is showing "New" filter
   if (shouldHide) {
@@ -169,13 +312,33 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
           {isPosted ? '✓ Reply Posted' : '— Reply Skipped'}
         </div>
       )}
+      {isScheduled && reply.scheduled_for && (
+        <div className="px-3 py-1 text-xs font-medium text-white text-center bg-blue-500">
+          Scheduled for {format(new Date(reply.scheduled_for), 'MMM d, h:mm a')}
+        </div>
+      )}
+      {isFailed && (
+        <div className="px-3 py-1 text-xs font-medium text-white text-center bg-red-500">
+          ✕ Posting Failed
+        </div>
+      )}
 
       {/* Tweet Section */}
       <div className="p-6 pb-0">
         {/* Tweet Header */}
         <div className="flex items-start gap-3 mb-4">
           <div className="flex-shrink-0">
-            <div className="h-12 w-12 rounded-full bg-gradient-to-br from-blue-400 to-blue-600" />
+            {avatarUrl ? (
+              <Image
+                src={avatarUrl}
+                alt={displayName}
+                width={48}
+                height={48}
+                className="h-12 w-12 rounded-full object-cover"
+              />
+            ) : (
+              <div className="h-12 w-12 rounded-full bg-gradient-to-br from-blue-400 to-blue-600" />
+            )}
           </div>
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 flex-wrap">
@@ -187,9 +350,14 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
               >
                 {displayName}
               </a>
-              <span className="text-sm text-muted-foreground">
-                @{displayHandle}
-              </span>
+              {reply.curated_post.post_author_verified && (
+                <BadgeCheck className="h-4 w-4 text-blue-500" aria-label="Verified" />
+              )}
+              {displayHandle && (
+                <span className="text-sm text-muted-foreground">
+                  @{displayHandle}
+                </span>
+              )}
               {reply.curated_post.post_created_at && (
                 <>
                   <span className="text-muted-foreground">·</span>
@@ -214,11 +382,25 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
           </div>
         </div>
 
+        {/* Thread Context */}
+        {threadContext?.repliedTo && (
+          <div className="mb-3 border-l-2 pl-3 text-sm text-muted-foreground">
+            <span className="font-medium">Replying to {contextAuthor(threadContext.repliedTo.authorHandle)}</span>
+            <p className="whitespace-pre-wrap line-clamp-3">{threadContext.repliedTo.text}</p>
+          </div>
+        )}
+
         {/* Tweet Content */}
         <div className="mb-4">
           <p className="text-[15px] leading-relaxed whitespace-pre-wrap">
             {reply.curated_post.post_content}
           </p>
+          {threadContext?.quoted && (
+            <div className="mt-3 rounded-lg border p-3 text-sm">
+              <span className="font-medium">{contextAuthor(threadContext.quoted.authorHandle)}</span>
+              <p className="text-muted-foreground whitespace-pre-wrap line-clamp-4">{threadContext.quoted.text}</p>
+            </div>
+          )}
         </div>
 
         {/* Tweet Metrics */}
@@ -242,6 +424,35 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
             </span>
           )}
         </div>
+
+        {/* Top Replies */}
+        {threadContext && threadContext.topReplies.length > 0 && (
+          <div className="pl-[60px] mb-4">
+            <button
+              type="button"
+              onClick={() => setShowTopReplies(!showTopReplies)}
+              className="text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {showTopReplies ? 'Hide' : 'Show'} top replies ({threadContext.topReplies.length})
+            </button>
+            {showTopReplies && (
+              <div className="mt-2 space-y-2">
+                {threadContext.topReplies.map(topReply => (
+                  <div key={topReply.id} className="text-sm">
+                    <span className="font-medium">{contextAuthor(topReply.authorHandle)}</span>
+                    {topReply.likes !== undefined && (
+                      <span className="ml-2 text-xs text-muted-foreground inline-flex items-center gap-1">
+                        <Heart className="h-3 w-3" />
+                        {topReply.likes}
+                      </span>
+                    )}
+                    <p className="text-muted-foreground whitespace-pre-wrap">{topReply.text}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Divider */}
@@ -260,6 +471,9 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
                 AI Suggested
               </span>
             )}
+            {version > 1 && (
+              <span className="text-xs text-muted-foreground">Version {version}</span>
+            )}
           </div>
           {isPending && !isEditing && (
             <Button
@@ -313,12 +527,167 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
           </div>
         ) : (
           <div className="rounded-lg p-4 text-[15px] leading-relaxed">
-            {reply.user_edited_reply || reply.suggested_reply}
+            {editedReply}
+          </div>
+        )}
+
+        {/* Variants and Tone Controls */}
+        {isPending && !isEditing && !isScheduling && (
+          <div className="space-y-2">
+            {variants.length > 1 && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCycleVariant(-1)}
+                  disabled={isLoading}
+                  aria-label="Previous variant"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  {REPLY_STANCES[variants[variantIndex].stance].label} · {variantIndex + 1}/{variants.length}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCycleVariant(1)}
+                  disabled={isLoading}
+                  aria-label="Next variant"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-1">
+              {TONE_OPTIONS.map(tone => (
+                <Button
+                  key={tone}
+                  variant={style.tone === tone ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setStyle({ ...style, tone })}
+                  disabled={isLoading}
+                >
+                  {REPLY_TONES[tone].label}
+                </Button>
+              ))}
+              <span className="mx-1 h-4 border-l" />
+              {LENGTH_OPTIONS.map(length => (
+                <Button
+                  key={length}
+                  variant={style.length === length ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2 text-xs capitalize"
+                  onClick={() => setStyle({ ...style, length: style.length === length ? null : length })}
+                  disabled={isLoading}
+                >
+                  {length}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto h-7 px-2 text-xs"
+                onClick={handleRegenerate}
+                disabled={isLoading}
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${isRegenerating ? 'animate-spin' : ''}`} />
+                Regenerate
+              </Button>
+            </div>
+            <Input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !isLoading) handleRegenerate();
+              }}
+              maxLength={MAX_INSTRUCTION_LENGTH}
+              disabled={isLoading}
+              placeholder='Optional: tell the AI what to change, e.g. "make it funnier"'
+              className="h-8 text-xs"
+            />
+            {regenerateError && (
+              <p className="text-xs text-red-600 dark:text-red-400">{regenerateError}</p>
+            )}
+          </div>
+        )}
+
+        {/* Post Error */}
+        {(postError || (isFailed && reply.post_error_message)) && !isEditing && (
+          <div className="mt-4 flex items-start gap-2 rounded-lg border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20 px-3 py-2 text-sm text-red-700 dark:text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{postError?.message || reply.post_error_message}</span>
+          </div>
+        )}
+
+        {/* Schedule Picker */}
+        {isScheduling && (
+          <div className="mt-4 space-y-3 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                type="datetime-local"
+                value={scheduleAt}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                disabled={isLoading}
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                onClick={() => handleSchedule(scheduleAt)}
+                disabled={isLoading || scheduleAt === ''}
+              >
+                Schedule
+              </Button>
+            </div>
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleSchedule()}
+                disabled={isLoading}
+                className="text-blue-600 dark:text-blue-400"
+              >
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Next open slot
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsScheduling(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Scheduled / Failed Actions */}
+        {(isScheduled || isFailed) && (
+          <div className="flex gap-3 mt-4">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={handleUnschedule}
+              disabled={isLoading || reply.status === 'posting'}
+            >
+              <X className="h-4 w-4 mr-2" />
+              {isFailed ? 'Back to Review' : 'Cancel Schedule'}
+            </Button>
+            <Button
+              className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700"
+              onClick={handlePost}
+              disabled={isLoading || reply.status === 'posting'}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {isFailed ? 'Retry Now' : 'Post Now'}
+            </Button>
           </div>
         )}
 
         {/* Action Buttons */}
-        {isPending && !isEditing && (
+        {isPending && !isEditing && !isScheduling && (
           <div className="flex gap-3 mt-4">
             <Button
               variant="outline"
@@ -329,6 +698,15 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
               <X className="h-4 w-4 mr-2" />
               Skip
             </Button>
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setIsScheduling(true)}
+              disabled={isLoading || editedReply.trim() === ''}
+            >
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Schedule
+            </Button>
             <Button
               className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700"
               onClick={handlePost}
@@ -343,7 +721,7 @@ export function ModernReplyCard({ reply, onPost, onReject, onEdit }: ModernReply
         {/* Character count for non-editing state */}
         {!isEditing && isPending && (
           <div className="mt-3 text-xs text-muted-foreground text-center">
-            {(reply.user_edited_reply || reply.suggested_reply).length}/280 characters
+            {editedReply.length}/280 characters
           </div>
         )}
       </div>
@@ -11,10 +11,11 @@ import {
   X,
   Target,
   Clock,
-  TrendingUp
+  TrendingUp,
+  CalendarClock
 } from 'lucide-react';
 
-export type StatusFilter = 'new' | 'skipped' | 'posted';
+export type StatusFilter = 'new' | 'scheduled' | 'skipped' | 'posted';
 export type SortOption = 'recency' | 'score';
 
 export interface FilterState {
@@ -34,6 +35,7 @@ interface RepliesFiltersProps {
   targets: MonitoringTarget[];
   replyCounts: {
     new: number;
+    scheduled: number;
     skipped: number;
     posted: number;
     total: number;
@@ -48,6 +50,12 @@ export function RepliesFilters({ filters, onFiltersChange, targets, replyCounts
       count: replyCounts.new,
       icon: Archive
     },
+    {
+      value: 'scheduled' as const,
+      label: 'Scheduled',
+      count: replyCounts.scheduled,
+      icon: CalendarClock
+    },
     {
       value: 'skipped' as const,
       label: 'Skipped',
@@ -3,13 +3,19 @@
 import { useEffect, useState } from 'react';
 import { RepliesWithFilters } from './replies-with-filters';
 import { refreshPostMetrics } from '@/app/actions/metrics-actions';
+import type { PostReplyResult, RegenerateVariantsResult } from '@/app/actions/reply-actions';
+import type { ReplyStyle } from '@/lib/reply-variants';
 
 interface RepliesListWithRefreshProps {
   initialReplies: any[];
   monitoringTargets: any[];
-  onPost: (id: string, replyText: string) => Promise<void>;
+  onPost: (id: string, replyText: string) => Promise<PostReplyResult>;
   onReject: (id: string) => Promise<void>;
+  onSchedule: (id: string, replyText: string, scheduledFor?: string) => Promise<PostReplyResult>;
+  onUnschedule: (id: string) => Promise<void>;
   onEdit: (id: string, newText: string) => Promise<void>;
+  onSelectVariant: (id: string, variantId: string) => Promise<void>;
+  onRegenerate: (id: string, style: ReplyStyle, instruction?: string) => Promise<RegenerateVariantsResult>;
 }
 
 export function RepliesListWithRefresh({
@@ -17,7 +23,11 @@ export function RepliesListWithRefresh({
   monitoringTargets,
   onPost,
   onReject,
+  onSchedule,
+  onUnschedule,
   onEdit,
+  onSelectVariant,
+  onRegenerate,
 }: RepliesListWithRefreshProps) {
   const [replies, setReplies] = useState(initialReplies);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -66,7 +76,11 @@ export function RepliesListWithRefresh({
         monitoringTargets={monitoringTargets}
         onPost={onPost}
         onReject={onReject}
+        onSchedule={onSchedule}
+        onUnschedule={onUnschedule}
         onEdit={onEdit}
+        onSelectVariant={onSelectVariant}
+        onRegenerate={onRegenerate}
       />
     </div>
   );
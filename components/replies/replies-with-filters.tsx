@@ -3,6 +3,9 @@
 import { useState, useMemo } from 'react';
 import { ModernRepliesList } from './modern-replies-list';
 import { RepliesFilters, FilterState } from './replies-filters';
+import type { PostReplyResult, RegenerateVariantsResult } from '@/app/actions/reply-actions';
+import type { ReplyStyle, ReplyVariant } from '@/lib/reply-variants';
+import type { ThreadContext } from '@/lib/thread-context';
 
 interface Reply {
   id: string;
@@ -10,15 +13,24 @@ interface Reply {
   user_edited_reply?: string;
   status: string;
   created_at: string;
+  scheduled_for?: string | null;
+  post_error_message?: string | null;
+  selected_variant_id?: string | null;
+  version?: number;
+  reply_variants?: ReplyVariant[];
   curated_post: {
     twitter_post_id: string;
     post_content: string;
     post_author_handle: string;
     post_author_id?: string;
+    post_author_name?: string | null;
+    post_author_avatar_url?: string | null;
+    post_author_verified?: boolean | null;
     post_url: string;
     post_created_at?: string;
     engagement_score?: number;
     relevance_score?: number;
+    thread_context?: ThreadContext | null;
     monitoring_target_id?: string;
     monitoring_targets?: {
       id: string;
@@ -27,6 +39,9 @@ interface Reply {
   };
 }
 
+// Replies queued for posting, including ones whose delivery failed
+const SCHEDULED_STATUSES = ['scheduled', 'posting', 'failed'];
+
 interface MonitoringTarget {
   id: string;
   name: string;
@@ -35,9 +50,13 @@ interface MonitoringTarget {
 interface RepliesWithFiltersProps {
   replies: Reply[];
   monitoringTargets: MonitoringTarget[];
-  onPost: (id: string, replyText: string) => Promise<void>;
+  onPost: (id: string, replyText: string) => Promise<PostReplyResult>;
   onReject: (id: string) => Promise<void>;
+  onSchedule: (id: string, replyText: string, scheduledFor?: string) => Promise<PostReplyResult>;
+  onUnschedule: (id: string) => Promise<void>;
   onEdit: (id: string, newText: string) => Promise<void>;
+  onSelectVariant: (id: string, variantId: string) => Promise<void>;
+  onRegenerate: (id: string, style: ReplyStyle, instruction?: string) => Promise<RegenerateVariantsResult>;
   isLoading?: boolean;
 }
 
@@ -46,7 +65,11 @@ export function RepliesWithFilters({
   monitoringTargets,
   onPost,
   onReject,
+  onSchedule,
+  onUnschedule,
   onEdit,
+  onSelectVariant,
+  onRegenerate,
   isLoading = false
 }: RepliesWithFiltersProps) {
   const [filters, setFilters] = useState<FilterState>({
@@ -58,11 +81,13 @@ export function RepliesWithFilters({
   // Calculate reply counts for each status
   const replyCounts = useMemo(() => {
     const newCount = replies.filter(r => ['pending', 'approved', 'edited'].includes(r.status)).length;
+    const scheduledCount = replies.filter(r => SCHEDULED_STATUSES.includes(r.status)).length;
     const skippedCount = replies.filter(r => r.status === 'skipped').length;
     const postedCount = replies.filter(r => r.status === 'posted').length;
 
     return {
       new: newCount,
+      scheduled: scheduledCount,
       skipped: skippedCount,
       posted: postedCount,
       total: replies.length,
@@ -78,6 +103,9 @@ export function RepliesWithFilters({
       case 'new':
         filtered = filtered.filter(r => ['pending', 'approved', 'edited'].includes(r.status));
         break;
+      case 'scheduled':
+        filtered = filtered.filter(r => SCHEDULED_STATUSES.includes(r.status));
+        break;
       case 'skipped':
         filtered = filtered.filter(r => r.status === 'skipped');
         break;
@@ -118,7 +146,11 @@ export function RepliesWithFilters({
         replies={filteredAndSortedReplies}
         onPost={onPost}
         onReject={onReject}
+        onSchedule={onSchedule}
+        onUnschedule={onUnschedule}
         onEdit={onEdit}
+        onSelectVariant={onSelectVariant}
+        onRegenerate={onRegenerate}
         isLoading={isLoading}
       />
     </div>
@@ -2,6 +2,7 @@
 
 import { TwitterStyleReplyCard } from './twitter-style-reply-card';
 import { Loader2 } from 'lucide-react';
+import type { PostReplyResult } from '@/app/actions/reply-actions';
 
 interface Reply {
   id: string;
@@ -9,6 +10,8 @@ interface Reply {
   user_edited_reply?: string;
   status: string;
   created_at: string;
+  scheduled_for?: string | null;
+  post_error_message?: string | null;
   curated_post: {
     twitter_post_id: string;
     post_content: string;
@@ -23,8 +26,10 @@ interface Reply {
 
 interface TwitterStyleRepliesListProps {
   replies: Reply[];
-  onPost: (id: string, replyText: string) => Promise<void>;
+  onPost: (id: string, replyText: string) => Promise<PostReplyResult>;
   onReject: (id: string) => Promise<void>;
+  onSchedule: (id: string, replyText: string, scheduledFor?: string) => Promise<PostReplyResult>;
+  onUnschedule: (id: string) => Promise<void>;
   onEdit: (id: string, newText: string) => Promise<void>;
   isLoading?: boolean;
 }
@@ -33,6 +38,8 @@ export function TwitterStyleRepliesList({
   replies,
   onPost,
   onReject,
+  onSchedule,
+  onUnschedule,
   onEdit,
   isLoading = false
 }: TwitterStyleRepliesListProps) {
@@ -69,6 +76,8 @@ export function TwitterStyleRepliesList({
           reply={reply}
           onPost={onPost}
           onReject={onReject}
+          onSchedule={onSchedule}
+          onUnschedule={onUnschedule}
           onEdit={onEdit}
         />
       ))}
@@ -12,9 +12,12 @@ import {
   Bookmark,
   MoreHorizontal,
   X,
-  Send
+  Send,
+  AlertCircle,
+  CalendarClock
 } from 'lucide-react';
 import { format } from 'date-fns';
+import type { PostReplyResult } from '@/app/actions/reply-actions';
 
 interface TwitterStyleReplyCardProps {
   reply: {
@@ -23,6 +26,8 @@ interface TwitterStyleReplyCardProps {
     user_edited_reply?: string;
     status: string;
     created_at: string;
+    scheduled_for?: string | null;
+    post_error_message?: string | null;
     curated_post: {
       twitter_post_id: string;
       post_content: string;
@@ -34,21 +39,54 @@ interface TwitterStyleReplyCardProps {
       total_score?: number;
     };
   };
-  onPost: (id: string, replyText: string) => Promise<void>;
+  onPost: (id: string, replyText: string) => Promise<PostReplyResult>;
   onReject: (id: string) => Promise<void>;
+  onSchedule: (id: string, replyText: string, scheduledFor?: string) => Promise<PostReplyResult>;
+  onUnschedule: (id: string) => Promise<void>;
   onEdit: (id: string, newText: string) => Promise<void>;
 }
 
-export function TwitterStyleReplyCard({ reply, onPost, onReject, onEdit }: TwitterStyleReplyCardProps) {
+export function TwitterStyleReplyCard({ reply, onPost, onReject, onSchedule, onUnschedule, onEdit }: TwitterStyleReplyCardProps) {
   const [isReplying, setIsReplying] = useState(false);
   const [editedReply, setEditedReply] = useState(reply.user_edited_reply || reply.suggested_reply);
   const [isLoading, setIsLoading] = useState(false);
+  const [postError, setPostError] = useState<PostReplyResult['error'] | null>(null);
 
   const handlePost = async () => {
     setIsLoading(true);
+    setPostError(null);
     try {
-      await onPost(reply.id, editedReply);
-      setIsReplying(false);
+      const result = await onPost(reply.id, editedReply);
+      if (result.success) {
+        setIsReplying(false);
+      } else {
+        setPostError(result.error ?? null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    setIsLoading(true);
+    setPostError(null);
+    try {
+      // Let the server pick the next open slot so replies are spread out
+      const result = await onSchedule(reply.id, editedReply);
+      if (result.success) {
+        setIsReplying(false);
+      } else {
+        setPostError(result.error ?? null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnschedule = async () => {
+    setIsLoading(true);
+    try {
+      await onUnschedule(reply.id);
     } finally {
       setIsLoading(false);
     }
@@ -212,6 +250,12 @@ export function TwitterStyleReplyCard({ reply, onPost, onReject, onEdit }: Twitt
                   maxLength={280}
                   disabled={isLoading}
                 />
+                {postError && (
+                  <div className="mt-2 flex items-start gap-1.5 text-sm text-red-600 dark:text-red-400">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{postError.message}</span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between mt-2 border-t pt-2">
                   <div className="flex items-center gap-2">
                     <span className="text-xs text-muted-foreground">
@@ -234,6 +278,16 @@ export function TwitterStyleReplyCard({ reply, onPost, onReject, onEdit }: Twitt
                       <X className="h-4 w-4 mr-1" />
                       Skip
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleSchedule}
+                      disabled={isLoading || editedReply.trim() === ''}
+                      className="text-muted-foreground hover:text-blue-500"
+                    >
+                      <CalendarClock className="h-4 w-4 mr-1" />
+                      Schedule
+                    </Button>
                     <Button
                       size="sm"
                       onClick={handlePost}
@@ -260,6 +314,45 @@ export function TwitterStyleReplyCard({ reply, onPost, onReject, onEdit }: Twitt
             — Reply skipped
           </div>
         )}
+        {reply.status === 'scheduled' && reply.scheduled_for && (
+          <div className="mt-2 ml-[60px] flex items-center gap-2 text-sm text-blue-600">
+            <CalendarClock className="h-4 w-4" />
+            Scheduled for {format(new Date(reply.scheduled_for), 'MMM d, h:mm a')}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleUnschedule}
+              disabled={isLoading}
+              className="h-7 px-2 text-muted-foreground"
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+        {reply.status === 'failed' && (
+          <div className="mt-2 ml-[60px] flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {reply.post_error_message || 'Posting failed'}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handlePost}
+              disabled={isLoading}
+              className="h-7 px-2"
+            >
+              Retry
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleUnschedule}
+              disabled={isLoading}
+              className="h-7 px-2 text-muted-foreground"
+            >
+              Back to review
+            </Button>
+          </div>
+        )}
       </div>
     </article>
   );
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Clock, Loader2, Plus, X } from "lucide-react";
+import { updateCheckSchedule } from "@/app/actions/settings-actions";
+import { CHECK_WINDOW_MINUTES, DEFAULT_DIGEST_TIME, parseCheckTime } from "@/lib/check-schedule";
+
+interface CheckScheduleFormProps {
+  digestTime: string | null;
+  extraCheckTimes: string[];
+  checksPerDay: number;
+  planName: string;
+  timezone: string;
+}
+
+export function CheckScheduleForm({
+  digestTime: initialDigestTime,
+  extraCheckTimes: initialExtraCheckTimes,
+  checksPerDay,
+  planName,
+  timezone,
+}: CheckScheduleFormProps) {
+  const [digestTime, setDigestTime] = useState(parseCheckTime(initialDigestTime) || DEFAULT_DIGEST_TIME);
+  const [extraCheckTimes, setExtraCheckTimes] = useState<string[]>(
+    initialExtraCheckTimes.map(time => parseCheckTime(time)).filter((time): time is string => !!time)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const canAddCheck = extraCheckTimes.length < checksPerDay - 1;
+
+  const updateExtraCheckTime = (index: number, value: string) => {
+    setExtraCheckTimes(prev => prev.map((time, i) => i === index ? value : time));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const result = await updateCheckSchedule(digestTime, extraCheckTimes);
+      setMessage(result.success
+        ? { type: "success", text: "Check schedule saved." }
+        : { type: "error", text: result.error || "Failed to save check schedule" });
+    } catch (error) {
+      console.error('Error saving check schedule:', error);
+      setMessage({ type: "error", text: "Failed to save check schedule" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-medium mb-1">Check Schedule</h3>
+        <p className="text-sm text-muted-foreground">
+          New posts and replies are gathered in the {CHECK_WINDOW_MINUTES / 60} hours before each check ({timezone}).
+          The {planName} plan includes {checksPerDay} {checksPerDay === 1 ? "check" : "checks"} a day.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="digestTime">Daily digest</Label>
+        <Input
+          id="digestTime"
+          type="time"
+          value={digestTime}
+          onChange={(e) => setDigestTime(e.target.value)}
+          className="w-40"
+        />
+      </div>
+
+      {extraCheckTimes.length > 0 && (
+        <div className="space-y-2">
+          <Label>Additional checks</Label>
+          {extraCheckTimes.map((time, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={time}
+                onChange={(e) => updateExtraCheckTime(index, e.target.value)}
+                className="w-40"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setExtraCheckTimes(prev => prev.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!canAddCheck}
+          onClick={() => setExtraCheckTimes(prev => [...prev, "12:00"])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add check
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Clock className="mr-2 h-4 w-4" />}
+          Save schedule
+        </Button>
+      </div>
+
+      {checksPerDay === 1 && (
+        <p className="text-xs text-muted-foreground">
+          Upgrade to schedule more than one check a day.
+        </p>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === "success" ? "text-green-600" : "text-destructive"}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
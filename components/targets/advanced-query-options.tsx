@@ -0,0 +1,245 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { X } from "lucide-react";
+import { MAX_QUERY_LENGTH, QUERY_FILTERS, type TopicQuery } from "@/lib/query-builder";
+
+export interface AdvancedQueryState {
+  exactPhrases: string[];
+  fromAccounts: string[];
+  toAccounts: string[];
+  includeFilters: string[];
+  excludeFilters: string[];
+  conversationId: string;
+  placeCountry: string;
+  useRawQuery: boolean;
+  rawQuery: string;
+}
+
+export const EMPTY_ADVANCED_QUERY: AdvancedQueryState = {
+  exactPhrases: [],
+  fromAccounts: [],
+  toAccounts: [],
+  includeFilters: [],
+  excludeFilters: [],
+  conversationId: "",
+  placeCountry: "",
+  useRawQuery: false,
+  rawQuery: "",
+};
+
+/**
+ * Form state for a saved topic target; targets with a raw query open in raw mode
+ */
+export function fromTopicQueryColumns(topic: TopicQuery | null | undefined): AdvancedQueryState {
+  if (!topic) return EMPTY_ADVANCED_QUERY;
+
+  return {
+    exactPhrases: topic.exact_phrases || [],
+    fromAccounts: topic.from_accounts || [],
+    toAccounts: topic.to_accounts || [],
+    includeFilters: topic.include_filters || [],
+    excludeFilters: topic.exclude_filters || [],
+    conversationId: topic.conversation_id || "",
+    placeCountry: topic.place_country || "",
+    useRawQuery: !!topic.raw_query,
+    rawQuery: topic.raw_query || "",
+  };
+}
+
+/**
+ * Map the form state to topic_targets query columns
+ * In raw mode only raw_query is kept so the structured operators don't linger unused
+ */
+export function toTopicQueryColumns(state: AdvancedQueryState) {
+  if (state.useRawQuery) {
+    return { raw_query: state.rawQuery.trim() || null };
+  }
+
+  return {
+    exact_phrases: state.exactPhrases,
+    from_accounts: state.fromAccounts,
+    to_accounts: state.toAccounts,
+    include_filters: state.includeFilters,
+    exclude_filters: state.excludeFilters,
+    conversation_id: state.conversationId.trim() || null,
+    place_country: state.placeCountry.trim().toUpperCase() || null,
+    raw_query: null,
+  };
+}
+
+/**
+ * Map the form state to the advanced query fields accepted by the /api/targets routes
+ */
+export function toQueryRequestFields(state: AdvancedQueryState) {
+  if (state.useRawQuery) {
+    return { rawQuery: state.rawQuery };
+  }
+
+  return {
+    exactPhrases: state.exactPhrases,
+    fromAccounts: state.fromAccounts,
+    toAccounts: state.toAccounts,
+    includeFilters: state.includeFilters,
+    excludeFilters: state.excludeFilters,
+    conversationId: state.conversationId,
+    placeCountry: state.placeCountry,
+    rawQuery: null,
+  };
+}
+
+interface AdvancedQueryOptionsProps {
+  value: AdvancedQueryState;
+  onChange: (value: AdvancedQueryState) => void;
+}
+
+/**
+ * Search operators beyond keywords and hashtags, plus a raw query escape hatch
+ */
+export function AdvancedQueryOptions({ value, onChange }: AdvancedQueryOptionsProps) {
+  const update = (changes: Partial<AdvancedQueryState>) => onChange({ ...value, ...changes });
+
+  const addTo = (field: "exactPhrases" | "fromAccounts" | "toAccounts", entry: string) => {
+    const formatted = field === "exactPhrases" ? entry.trim().replace(/"/g, "") : entry.trim().replace(/^@/, "");
+    if (!formatted || value[field].includes(formatted)) return;
+    update({ [field]: [...value[field], formatted] });
+  };
+
+  const removeFrom = (field: "exactPhrases" | "fromAccounts" | "toAccounts", entry: string) => {
+    update({ [field]: value[field].filter(e => e !== entry) });
+  };
+
+  // Each filter cycles: off -> required -> excluded -> off
+  const cycleFilter = (operator: string) => {
+    if (value.includeFilters.includes(operator)) {
+      update({
+        includeFilters: value.includeFilters.filter(f => f !== operator),
+        excludeFilters: [...value.excludeFilters, operator],
+      });
+    } else if (value.excludeFilters.includes(operator)) {
+      update({ excludeFilters: value.excludeFilters.filter(f => f !== operator) });
+    } else {
+      update({ includeFilters: [...value.includeFilters, operator] });
+    }
+  };
+
+  const chipField = (
+    field: "exactPhrases" | "fromAccounts" | "toAccounts",
+    label: string,
+    placeholder: string,
+    prefix: string
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {value[field].map((entry) => (
+          <Badge key={entry} variant="secondary" className="gap-1">
+            {prefix === '"' ? `"${entry}"` : `${prefix}${entry}`}
+            <X
+              className="h-3 w-3 cursor-pointer"
+              onClick={() => removeFrom(field, entry)}
+            />
+          </Badge>
+        ))}
+      </div>
+      <Input
+        placeholder={placeholder}
+        onKeyPress={(e) => {
+          if (e.key === 'Enter') {
+            addTo(field, e.currentTarget.value);
+            e.currentTarget.value = '';
+          }
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="useRawQuery"
+          checked={value.useRawQuery}
+          onCheckedChange={(checked) => update({ useRawQuery: checked === true })}
+        />
+        <Label htmlFor="useRawQuery" className="text-sm font-normal">
+          Write the search query myself
+        </Label>
+      </div>
+
+      {value.useRawQuery ? (
+        <div className="space-y-2">
+          <Label htmlFor="rawQuery">Search Query</Label>
+          <Textarea
+            id="rawQuery"
+            placeholder='e.g., (AI OR "machine learning") from:openai -is:retweet lang:en'
+            value={value.rawQuery}
+            onChange={(e) => update({ rawQuery: e.target.value })}
+            rows={3}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Sent to X exactly as written (max {MAX_QUERY_LENGTH} characters). Keywords, hashtags and
+            languages above are ignored in this mode.
+          </p>
+        </div>
+      ) : (
+        <>
+          {chipField("exactPhrases", "Exact Phrases", "Add a phrase to match exactly and press Enter", '"')}
+          {chipField("fromAccounts", "Posts From", "Add a handle and press Enter", "from:@")}
+          {chipField("toAccounts", "Replies To", "Add a handle and press Enter", "to:@")}
+
+          {/* Content filters */}
+          <div className="space-y-2">
+            <Label>Content Filters</Label>
+            <div className="flex flex-wrap gap-2">
+              {QUERY_FILTERS.map((filter) => {
+                const required = value.includeFilters.includes(filter.operator);
+                const excluded = value.excludeFilters.includes(filter.operator);
+                return (
+                  <Badge
+                    key={filter.operator}
+                    variant={required ? "default" : excluded ? "destructive" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => cycleFilter(filter.operator)}
+                  >
+                    {excluded ? `No ${filter.label.toLowerCase()}` : filter.label}
+                  </Badge>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Click once to require, twice to exclude, three times to ignore
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="conversationId">Conversation ID</Label>
+              <Input
+                id="conversationId"
+                placeholder="Post ID of a thread"
+                value={value.conversationId}
+                onChange={(e) => update({ conversationId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="placeCountry">Country</Label>
+              <Input
+                id="placeCountry"
+                placeholder="e.g., BR"
+                maxLength={2}
+                value={value.placeCountry}
+                onChange={(e) => update({ placeCountry: e.target.value.toUpperCase() })}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
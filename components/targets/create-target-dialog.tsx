@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,13 +8,20 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Hash, List, X, Loader2, Plus } from "lucide-react";
-import { createClient } from "@/lib/supabase/client";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Hash, List, Users, X, Loader2, Plus, Lock } from "lucide-react";
+import { DEFAULT_TARGET_LANGUAGES } from "@/lib/languages";
+import { buildTopicQuery, validateTopicQuery } from "@/lib/query-builder";
+import type { TargetType, TierEntitlements } from "@/lib/entitlements";
+import { LanguagePicker } from "./language-picker";
+import { AdvancedQueryOptions, EMPTY_ADVANCED_QUERY, toQueryRequestFields, toTopicQueryColumns, type AdvancedQueryState } from "./advanced-query-options";
+import { QueryPreview } from "./query-preview";
+import { TargetTestRun } from "./target-test-run";
 
 interface MonitoringTarget {
   id: string;
   name: string;
-  target_type: 'topic' | 'twitter_list';
+  target_type: 'topic' | 'twitter_list' | 'accounts';
   status: 'active' | 'paused' | 'archived';
   created_at: string;
   updated_at: string;
@@ -26,25 +33,40 @@ interface MonitoringTarget {
     min_engagement: number;
     languages: string[];
   }>;
-  twitter_list_targets?: Array<{
+  twitter_list_targets?: {
     id: string;
     twitter_list_id: string;
     list_name: string;
     list_owner_handle: string;
     include_retweets: boolean;
     max_posts_per_day: number;
+  };
+  account_targets?: Array<{
+    id: string;
+    twitter_user_id: string;
+    twitter_handle: string;
+    display_name: string | null;
   }>;
 }
 
 interface CreateTargetDialogProps {
-  userId: string;
+  entitlements: TierEntitlements;
+  targetCount: number;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onTargetCreated: (target: MonitoringTarget) => void;
 }
 
+// Dialog tab for each target type
+const TAB_TARGET_TYPES: Record<string, TargetType> = {
+  topic: 'topic',
+  list: 'twitter_list',
+  accounts: 'accounts'
+};
+
 export function CreateTargetDialog({
-  userId,
+  entitlements,
+  targetCount,
   open,
   onOpenChange,
   onTargetCreated,
@@ -58,13 +80,41 @@ export function CreateTargetDialog({
   const [hashtags, setHashtags] = useState<string[]>([]);
   const [excludeKeywords, setExcludeKeywords] = useState<string[]>([]);
   const [minEngagement, setMinEngagement] = useState(0);
+  const [languages, setLanguages] = useState<string[]>(DEFAULT_TARGET_LANGUAGES);
+  const [advancedQuery, setAdvancedQuery] = useState<AdvancedQueryState>(EMPTY_ADVANCED_QUERY);
   const [description, setDescription] = useState("");
 
-  // Twitter list target state (for future implementation)
-  // const [listName, setListName] = useState("");
-  // const [maxPostsPerDay, setMaxPostsPerDay] = useState(50);
-
-  const supabase = createClient();
+  // Twitter list target state
+  const [listName, setListName] = useState("");
+  const [listUrl, setListUrl] = useState("");
+  const [includeRetweets, setIncludeRetweets] = useState(false);
+  const [maxPostsPerDay, setMaxPostsPerDay] = useState(50);
+
+  // Account watchlist target state
+  const [watchlistName, setWatchlistName] = useState("");
+  const [handles, setHandles] = useState<string[]>([]);
+
+  const isTabAllowed = (tab: string) => entitlements.allowedTargetTypes.includes(TAB_TARGET_TYPES[tab]);
+  const atTargetLimit = entitlements.maxTargets !== null && targetCount >= entitlements.maxTargets;
+
+  // The same builder the search pipeline uses, so the preview is exactly what gets sent
+  const topicQuery = useMemo(() => ({
+    keywords,
+    hashtags,
+    exclude_keywords: excludeKeywords,
+    languages,
+    ...toTopicQueryColumns(advancedQuery)
+  }), [keywords, hashtags, excludeKeywords, languages, advancedQuery]);
+  const queryPreview = buildTopicQuery(topicQuery);
+  const queryError = validateTopicQuery(topicQuery);
+  const testRunDraft = useMemo(() => ({
+    keywords,
+    hashtags,
+    excludeKeywords,
+    minEngagement,
+    languages,
+    ...toQueryRequestFields(advancedQuery)
+  }), [keywords, hashtags, excludeKeywords, minEngagement, languages, advancedQuery]);
 
   const addKeyword = (keyword: string) => {
     if (!keyword.trim() || keywords.includes(keyword.trim())) return;
@@ -95,84 +145,142 @@ export function CreateTargetDialog({
     setExcludeKeywords(excludeKeywords.filter(k => k !== keyword));
   };
 
+  const addHandle = (handle: string) => {
+    const formatted = handle.trim().replace(/^@/, '');
+    if (!formatted || handles.some(h => h.toLowerCase() === formatted.toLowerCase())) return;
+    setHandles([...handles, formatted]);
+  };
+
+  const removeHandle = (handle: string) => {
+    setHandles(handles.filter(h => h !== handle));
+  };
+
   const resetForm = () => {
     setTopicName("");
     setKeywords([]);
     setHashtags([]);
     setExcludeKeywords([]);
     setMinEngagement(0);
+    setLanguages(DEFAULT_TARGET_LANGUAGES);
+    setAdvancedQuery(EMPTY_ADVANCED_QUERY);
     setDescription("");
     setListName("");
+    setListUrl("");
+    setIncludeRetweets(false);
     setMaxPostsPerDay(50);
+    setWatchlistName("");
+    setHandles([]);
     setActiveTab("topic");
   };
 
-  const handleCreateTarget = async () => {
-    if (!topicName.trim() || (keywords.length === 0 && hashtags.length === 0)) {
-      alert("Please provide a target name and at least one keyword or hashtag.");
+  const handleCreateListTarget = async () => {
+    if (!listUrl.trim()) {
+      alert("Please provide a Twitter list URL or ID.");
       return;
     }
 
     setIsLoading(true);
     try {
-      console.log('Creating monitoring target:', {
-        user_id: userId,
-        name: topicName.trim(),
-        target_type: 'topic',
-        status: 'active'
+      const response = await fetch('/api/targets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetType: 'twitter_list',
+          name: listName.trim(),
+          listId: listUrl.trim(),
+          includeRetweets,
+          maxPostsPerDay
+        })
       });
 
-      // Create monitoring target
-      const { data: monitoringTarget, error: targetError } = await supabase
-        .from('monitoring_targets')
-        .insert({
-          user_id: userId,
-          name: topicName.trim(),
-          target_type: 'topic',
-          status: 'active'
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create list target');
+      }
+
+      const { target } = await response.json();
+      onTargetCreated(target);
+      resetForm();
+    } catch (error) {
+      console.error('Error creating list target:', error);
+      alert(`Failed to create target: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateAccountsTarget = async () => {
+    if (!watchlistName.trim() || handles.length === 0) {
+      alert("Please provide a target name and at least one account.");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/targets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetType: 'accounts',
+          name: watchlistName.trim(),
+          handles
         })
-        .select()
-        .single();
+      });
 
-      if (targetError) {
-        console.error('Error creating monitoring target:', targetError);
-        throw targetError;
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create account watchlist');
       }
 
-      console.log('Created monitoring target:', monitoringTarget);
-
-      // Create topic configuration
-      const topicConfig = {
-        monitoring_target_id: monitoringTarget.id,
-        keywords: keywords.length > 0 ? keywords : [],
-        hashtags: hashtags.length > 0 ? hashtags : [],
-        exclude_keywords: excludeKeywords.length > 0 ? excludeKeywords : [],
-        min_engagement: minEngagement,
-        languages: ['en']
-      };
-
-      console.log('Creating topic configuration:', topicConfig);
-
-      const { data: topicTarget, error: topicError } = await supabase
-        .from('topic_targets')
-        .insert(topicConfig)
-        .select()
-        .single();
-
-      if (topicError) {
-        console.error('Error creating topic configuration:', topicError);
-        throw topicError;
-      }
+      const { target } = await response.json();
+      onTargetCreated(target);
+      resetForm();
+    } catch (error) {
+      console.error('Error creating account watchlist:', error);
+      alert(`Failed to create target: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateTarget = async () => {
+    if (activeTab === "list") {
+      return handleCreateListTarget();
+    }
+
+    if (activeTab === "accounts") {
+      return handleCreateAccountsTarget();
+    }
 
-      console.log('Created topic configuration:', topicTarget);
+    if (!topicName.trim() || queryError) {
+      alert(queryError || "Please provide a target name.");
+      return;
+    }
 
-      // Combine the data for the parent component
-      const newTarget = {
-        ...monitoringTarget,
-        topic_targets: [topicTarget]
-      };
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/targets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetType: 'topic',
+          name: topicName.trim(),
+          keywords,
+          hashtags,
+          excludeKeywords,
+          minEngagement,
+          languages,
+          ...toQueryRequestFields(advancedQuery)
+        })
+      });
 
-      onTargetCreated(newTarget);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create topic target');
+      }
+
+      const { target } = await response.json();
+      onTargetCreated(target);
       resetForm();
     } catch (error) {
       console.error('Error creating target:', error);
@@ -215,17 +323,33 @@ export function CreateTargetDialog({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="topic" className="flex items-center gap-2">
               <Hash className="h-4 w-4" />
               Topic Target
             </TabsTrigger>
-            <TabsTrigger value="list" disabled className="flex items-center gap-2 opacity-50">
-              <List className="h-4 w-4" />
-              Twitter List (Coming Soon)
+            <TabsTrigger value="list" className="flex items-center gap-2" disabled={!isTabAllowed("list")}>
+              {isTabAllowed("list") ? <List className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+              Twitter List
+            </TabsTrigger>
+            <TabsTrigger value="accounts" className="flex items-center gap-2" disabled={!isTabAllowed("accounts")}>
+              {isTabAllowed("accounts") ? <Users className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+              Accounts
             </TabsTrigger>
           </TabsList>
 
+          {(!isTabAllowed("list") || !isTabAllowed("accounts")) && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Twitter list and account watchlist targets aren&apos;t included in the {entitlements.displayName} plan. Upgrade to monitor lists and accounts.
+            </p>
+          )}
+
+          {atTargetLimit && (
+            <p className="text-sm text-destructive mt-2">
+              The {entitlements.displayName} plan includes up to {entitlements.maxTargets} monitoring {entitlements.maxTargets === 1 ? "target" : "targets"}. Archive a target or upgrade your plan to add another.
+            </p>
+          )}
+
           <TabsContent value="topic" className="space-y-6">
             {/* Quick Suggestions */}
             <div className="space-y-3">
@@ -349,6 +473,9 @@ export function CreateTargetDialog({
                 </p>
               </div>
 
+              {/* Languages */}
+              <LanguagePicker value={languages} onChange={setLanguages} />
+
               {/* Minimum Engagement */}
               <div className="space-y-2">
                 <Label htmlFor="minEngagement">Minimum Engagement</Label>
@@ -365,6 +492,13 @@ export function CreateTargetDialog({
                 </p>
               </div>
 
+              {/* Search operators and raw query mode */}
+              <AdvancedQueryOptions value={advancedQuery} onChange={setAdvancedQuery} />
+
+              <QueryPreview query={queryPreview} error={queryError} />
+
+              <TargetTestRun draft={testRunDraft} disabled={!!queryError} />
+
               {/* Description */}
               <div className="space-y-2">
                 <Label htmlFor="description">Description (Optional)</Label>
@@ -379,15 +513,103 @@ export function CreateTargetDialog({
             </div>
           </TabsContent>
 
-          <TabsContent value="list" className="space-y-4">
-            <div className="text-center py-8">
-              <List className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Twitter List Monitoring</h3>
-              <p className="text-muted-foreground mb-4">
-                This feature is coming soon! You'll be able to monitor posts from your Twitter lists.
+          <TabsContent value="list" className="space-y-6">
+            {/* List URL */}
+            <div className="space-y-2">
+              <Label htmlFor="listUrl">List URL or ID *</Label>
+              <Input
+                id="listUrl"
+                placeholder="e.g., https://x.com/i/lists/1234567890"
+                value={listUrl}
+                onChange={(e) => setListUrl(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Public lists only. Open the list on X and copy the address from your browser.
               </p>
-              <p className="text-sm text-muted-foreground">
-                For now, use Topic Targets to monitor keywords and hashtags.
+            </div>
+
+            {/* Target Name */}
+            <div className="space-y-2">
+              <Label htmlFor="listTargetName">Target Name</Label>
+              <Input
+                id="listTargetName"
+                placeholder="Defaults to the list's name"
+                value={listName}
+                onChange={(e) => setListName(e.target.value)}
+              />
+            </div>
+
+            {/* List Options */}
+            <div className="space-y-4 pt-4 border-t">
+              <h4 className="text-sm font-medium">List Options</h4>
+
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="includeRetweets"
+                  checked={includeRetweets}
+                  onCheckedChange={(checked) => setIncludeRetweets(checked === true)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="includeRetweets">Include retweets</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Posts retweeted by list members are added as the original post
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maxPostsPerDay">Max Posts Per Day</Label>
+                <Input
+                  id="maxPostsPerDay"
+                  type="number"
+                  min="1"
+                  max="200"
+                  value={maxPostsPerDay}
+                  onChange={(e) => setMaxPostsPerDay(parseInt(e.target.value) || 1)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Limit how many posts from this list can appear in your daily digest
+                </p>
+              </div>
+            </div>
+          </TabsContent>
+          <TabsContent value="accounts" className="space-y-6">
+            {/* Target Name */}
+            <div className="space-y-2">
+              <Label htmlFor="watchlistName">Target Name *</Label>
+              <Input
+                id="watchlistName"
+                placeholder="e.g., Founders I follow"
+                value={watchlistName}
+                onChange={(e) => setWatchlistName(e.target.value)}
+              />
+            </div>
+
+            {/* Handles */}
+            <div className="space-y-2">
+              <Label>Accounts *</Label>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {handles.map((handle) => (
+                  <Badge key={handle} variant="secondary" className="gap-1">
+                    @{handle}
+                    <X 
+                      className="h-3 w-3 cursor-pointer" 
+                      onClick={() => removeHandle(handle)}
+                    />
+                  </Badge>
+                ))}
+              </div>
+              <Input
+                placeholder="Add a handle and press Enter (@ is optional)"
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    addHandle(e.currentTarget.value);
+                    e.currentTarget.value = '';
+                  }
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                New original posts from these accounts are added to your digest with priority.
               </p>
             </div>
           </TabsContent>
@@ -403,7 +625,11 @@ export function CreateTargetDialog({
           </Button>
           <Button 
             onClick={handleCreateTarget}
-            disabled={isLoading || !topicName.trim() || (keywords.length === 0 && hashtags.length === 0)}
+            disabled={isLoading || atTargetLimit || !isTabAllowed(activeTab) || (activeTab === "list"
+              ? !listUrl.trim()
+              : activeTab === "accounts"
+                ? !watchlistName.trim() || handles.length === 0
+                : !topicName.trim() || !!queryError)}
           >
             {isLoading ? (
               <>
@@ -7,8 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { X, Loader2, Save } from "lucide-react";
-import { createClient } from "@/lib/supabase/client";
+import { DEFAULT_TARGET_LANGUAGES } from "@/lib/languages";
+import { buildTopicQuery, validateTopicQuery } from "@/lib/query-builder";
+import { LanguagePicker } from "./language-picker";
+import { AdvancedQueryOptions, EMPTY_ADVANCED_QUERY, fromTopicQueryColumns, toQueryRequestFields, toTopicQueryColumns, type AdvancedQueryState } from "./advanced-query-options";
+import { QueryPreview } from "./query-preview";
 
 interface EditTargetDialogProps {
   target: any;
@@ -29,8 +34,27 @@ export function EditTargetDialog({
   const [hashtags, setHashtags] = useState<string[]>([]);
   const [excludeKeywords, setExcludeKeywords] = useState<string[]>([]);
   const [minEngagement, setMinEngagement] = useState(0);
+  const [languages, setLanguages] = useState<string[]>(DEFAULT_TARGET_LANGUAGES);
+  const [includeRetweets, setIncludeRetweets] = useState(false);
+  const [maxPostsPerDay, setMaxPostsPerDay] = useState(50);
+  const [advancedQuery, setAdvancedQuery] = useState<AdvancedQueryState>(EMPTY_ADVANCED_QUERY);
 
-  const supabase = createClient();
+  const [handles, setHandles] = useState<string[]>([]);
+
+  const isListTarget = target?.target_type === 'twitter_list';
+  const isAccountsTarget = target?.target_type === 'accounts';
+
+  // Keyword groups aren't editable here but still shape the query
+  const topicQuery = {
+    ...target?.topic_targets?.[0],
+    keywords,
+    hashtags,
+    exclude_keywords: excludeKeywords,
+    languages,
+    ...toTopicQueryColumns(advancedQuery)
+  };
+  const queryPreview = buildTopicQuery(topicQuery);
+  const queryError = validateTopicQuery(topicQuery);
 
   // Load target data when dialog opens
   useEffect(() => {
@@ -43,7 +67,17 @@ export function EditTargetDialog({
         setHashtags(topicConfig.hashtags || []);
         setExcludeKeywords(topicConfig.exclude_keywords || []);
         setMinEngagement(topicConfig.min_engagement || 0);
+        setLanguages(topicConfig.languages || []);
+      }
+      setAdvancedQuery(fromTopicQueryColumns(topicConfig));
+
+      const listConfig = target.twitter_list_targets;
+      if (listConfig) {
+        setIncludeRetweets(!!listConfig.include_retweets);
+        setMaxPostsPerDay(listConfig.max_posts_per_day || 50);
       }
+
+      setHandles((target.account_targets || []).map((a: { twitter_handle: string }) => a.twitter_handle));
     }
   }, [target, open]);
 
@@ -76,59 +110,32 @@ export function EditTargetDialog({
     setExcludeKeywords(excludeKeywords.filter(k => k !== keyword));
   };
 
-  const handleUpdateTarget = async () => {
-    if (!targetName.trim() || (keywords.length === 0 && hashtags.length === 0)) {
-      alert("Please provide a target name and at least one keyword or hashtag.");
-      return;
-    }
+  const addHandle = (handle: string) => {
+    const formatted = handle.trim().replace(/^@/, '');
+    if (!formatted || handles.some(h => h.toLowerCase() === formatted.toLowerCase())) return;
+    setHandles([...handles, formatted]);
+  };
+
+  const removeHandle = (handle: string) => {
+    setHandles(handles.filter(h => h !== handle));
+  };
 
+  const handleUpdateViaApi = async (fields: Record<string, unknown>) => {
     setIsLoading(true);
     try {
-      // Update monitoring target name
-      const { data: updatedTarget, error: targetError } = await supabase
-        .from('monitoring_targets')
-        .update({
-          name: targetName.trim(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', target.id)
-        .select()
-        .single();
-
-      if (targetError) {
-        console.error('Error updating monitoring target:', targetError);
-        throw targetError;
-      }
+      const response = await fetch(`/api/targets?id=${target.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: targetName.trim(), ...fields })
+      });
 
-      // Update topic configuration
-      const topicConfig = target.topic_targets?.[0];
-      if (topicConfig) {
-        const { data: updatedTopicConfig, error: topicError } = await supabase
-          .from('topic_targets')
-          .update({
-            keywords: keywords.length > 0 ? keywords : [],
-            hashtags: hashtags.length > 0 ? hashtags : [],
-            exclude_keywords: excludeKeywords.length > 0 ? excludeKeywords : [],
-            min_engagement: minEngagement,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', topicConfig.id)
-          .select()
-          .single();
-
-        if (topicError) {
-          console.error('Error updating topic configuration:', topicError);
-          throw topicError;
-        }
-
-        // Combine the updated data
-        const finalTarget = {
-          ...updatedTarget,
-          topic_targets: [updatedTopicConfig]
-        };
-
-        onTargetUpdated(finalTarget);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update target');
       }
+
+      const { target: updatedTarget } = await response.json();
+      onTargetUpdated(updatedTarget);
     } catch (error) {
       console.error('Error updating target:', error);
       alert(`Failed to update target: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -137,6 +144,48 @@ export function EditTargetDialog({
     }
   };
 
+  const handleUpdateListTarget = async () => {
+    if (!targetName.trim()) {
+      alert("Please provide a target name.");
+      return;
+    }
+
+    await handleUpdateViaApi({ includeRetweets, maxPostsPerDay });
+  };
+
+  const handleUpdateAccountsTarget = async () => {
+    if (!targetName.trim() || handles.length === 0) {
+      alert("Please provide a target name and at least one account.");
+      return;
+    }
+
+    await handleUpdateViaApi({ handles });
+  };
+
+  const handleUpdateTarget = async () => {
+    if (isListTarget) {
+      return handleUpdateListTarget();
+    }
+
+    if (isAccountsTarget) {
+      return handleUpdateAccountsTarget();
+    }
+
+    if (!targetName.trim() || queryError) {
+      alert(queryError || "Please provide a target name.");
+      return;
+    }
+
+    await handleUpdateViaApi({
+      keywords,
+      hashtags,
+      excludeKeywords,
+      minEngagement,
+      languages,
+      ...toQueryRequestFields(advancedQuery)
+    });
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -159,6 +208,65 @@ export function EditTargetDialog({
             />
           </div>
 
+          {isListTarget ? (
+            <div className="space-y-4 pt-4 border-t">
+              <h4 className="text-sm font-medium">List Options</h4>
+
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="includeRetweets"
+                  checked={includeRetweets}
+                  onCheckedChange={(checked) => setIncludeRetweets(checked === true)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="includeRetweets">Include retweets</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Posts retweeted by list members are added as the original post
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maxPostsPerDay">Max Posts Per Day</Label>
+                <Input
+                  id="maxPostsPerDay"
+                  type="number"
+                  min="1"
+                  max="200"
+                  value={maxPostsPerDay}
+                  onChange={(e) => setMaxPostsPerDay(parseInt(e.target.value) || 1)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Limit how many posts from this list can appear in your daily digest
+                </p>
+              </div>
+            </div>
+          ) : isAccountsTarget ? (
+            <div className="space-y-2">
+              <Label>Accounts *</Label>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {handles.map((handle) => (
+                  <Badge key={handle} variant="secondary" className="gap-1">
+                    @{handle}
+                    <X 
+                      className="h-3 w-3 cursor-pointer" 
+                      onClick={() => removeHandle(handle)}
+                    />
+                  </Badge>
+                ))}
+              </div>
+              <Input
+                placeholder="Add a handle and press Enter (@ is optional)"
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    addHandle(e.currentTarget.value);
+                    e.currentTarget.value = '';
+                  }
+                }}
+              />
+            </div>
+          ) : (
+          <>
           {/* Keywords */}
           <div className="space-y-2">
             <Label>Keywords *</Label>
@@ -238,6 +346,9 @@ export function EditTargetDialog({
               />
             </div>
 
+            {/* Languages */}
+            <LanguagePicker value={languages} onChange={setLanguages} />
+
             {/* Minimum Engagement */}
             <div className="space-y-2">
               <Label htmlFor="minEngagement">Minimum Engagement</Label>
@@ -253,7 +364,14 @@ export function EditTargetDialog({
                 Only include posts with at least this many likes + retweets + replies
               </p>
             </div>
+
+            {/* Search operators and raw query mode */}
+            <AdvancedQueryOptions value={advancedQuery} onChange={setAdvancedQuery} />
+
+            <QueryPreview query={queryPreview} error={queryError} />
           </div>
+          </>
+          )}
         </div>
 
         <DialogFooter>
@@ -266,7 +384,7 @@ export function EditTargetDialog({
           </Button>
           <Button 
             onClick={handleUpdateTarget}
-            disabled={isLoading || !targetName.trim() || (keywords.length === 0 && hashtags.length === 0)}
+            disabled={isLoading || !targetName.trim() || (isAccountsTarget ? handles.length === 0 : !isListTarget && !!queryError)}
           >
             {isLoading ? (
               <>
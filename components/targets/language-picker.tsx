@@ -0,0 +1,48 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { TARGET_LANGUAGES } from "@/lib/languages";
+
+interface LanguagePickerProps {
+  value: string[];
+  onChange: (languages: string[]) => void;
+}
+
+/**
+ * Toggle chips for the languages a topic target searches in
+ * Selecting "Any language" clears the selection so no language filter is applied
+ */
+export function LanguagePicker({ value, onChange }: LanguagePickerProps) {
+  const toggleLanguage = (code: string) => {
+    onChange(value.includes(code) ? value.filter(c => c !== code) : [...value, code]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Languages</Label>
+      <div className="flex flex-wrap gap-2">
+        <Badge
+          variant={value.length === 0 ? "default" : "outline"}
+          className="cursor-pointer"
+          onClick={() => onChange([])}
+        >
+          Any language
+        </Badge>
+        {TARGET_LANGUAGES.map((language) => (
+          <Badge
+            key={language.code}
+            variant={value.includes(language.code) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleLanguage(language.code)}
+          >
+            {language.label}
+          </Badge>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Only find posts written in these languages
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { MAX_QUERY_LENGTH } from "@/lib/query-builder";
+
+interface QueryPreviewProps {
+  query: string;
+  error: string | null;
+}
+
+/**
+ * Shows the exact query that will be sent to X, with its length and any validation error
+ */
+export function QueryPreview({ query, error }: QueryPreviewProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Query Preview</Label>
+        <span className={`text-xs ${query.length > MAX_QUERY_LENGTH ? "text-destructive" : "text-muted-foreground"}`}>
+          {query.length}/{MAX_QUERY_LENGTH}
+        </span>
+      </div>
+      <pre className="rounded-md bg-muted p-3 text-xs font-mono whitespace-pre-wrap break-all">
+        {query || "—"}
+      </pre>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { FlaskConical, Loader2 } from "lucide-react";
+
+interface PreviewTweet {
+  id: string;
+  text: string;
+  created_at: string;
+  public_metrics: {
+    like_count: number;
+    retweet_count: number;
+    reply_count: number;
+  };
+  author: {
+    username: string;
+    name: string;
+  } | null;
+}
+
+interface PreviewResult {
+  sampleSize: number;
+  matchingCount: number;
+  tweets: PreviewTweet[];
+  estimatedDailyVolume: number;
+  estimatedDailyMatches: number;
+  estimatedDailyCost: number;
+}
+
+interface TargetTestRunProps {
+  // Draft topic fields in the shape POST /api/targets accepts
+  draft: Record<string, unknown>;
+  disabled?: boolean;
+}
+
+/**
+ * Runs a draft topic target once against X and shows what it would match
+ * Nothing is saved; the result is dropped as soon as the draft changes
+ */
+export function TargetTestRun({ draft, disabled }: TargetTestRunProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<{ draftKey: string; preview: PreviewResult } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const draftKey = JSON.stringify(draft);
+  const preview = result?.draftKey === draftKey ? result.preview : null;
+
+  const runTest = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/targets/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: draftKey,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to test target');
+      }
+
+      setResult({ draftKey, preview: data });
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to test target');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Test Run</Label>
+        <Button type="button" variant="outline" size="sm" onClick={runTest} disabled={disabled || isRunning}>
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <FlaskConical className="h-4 w-4 mr-2" />
+          )}
+          Test search
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {preview && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-lg font-semibold">~{preview.estimatedDailyVolume}</div>
+              <div className="text-xs text-muted-foreground">posts / day</div>
+            </div>
+            <div>
+              <div className="text-lg font-semibold">~{preview.estimatedDailyMatches}</div>
+              <div className="text-xs text-muted-foreground">pass filters / day</div>
+            </div>
+            <div>
+              <div className="text-lg font-semibold">${preview.estimatedDailyCost.toFixed(2)}</div>
+              <div className="text-xs text-muted-foreground">est. cost / day</div>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {preview.matchingCount} of {preview.sampleSize} sampled posts passed the junk and engagement filters
+          </p>
+
+          {preview.tweets.length > 0 ? (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {preview.tweets.map((tweet) => (
+                <div key={tweet.id} className="rounded bg-muted p-2 text-xs space-y-1">
+                  {tweet.author && (
+                    <div className="font-medium">
+                      {tweet.author.name} <span className="text-muted-foreground">@{tweet.author.username}</span>
+                    </div>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">{tweet.text}</p>
+                  <div className="text-muted-foreground">
+                    {tweet.public_metrics.like_count} likes · {tweet.public_metrics.retweet_count} retweets · {tweet.public_metrics.reply_count} replies
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No recent posts matched. Try broader keywords or a lower minimum engagement.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
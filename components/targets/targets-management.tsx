@@ -4,16 +4,17 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Target, Plus, Hash, List, Settings, Pause, Play, Archive, MoreHorizontal, BarChart3, Calendar } from "lucide-react";
+import { Target, Plus, Hash, List, Users, Settings, Pause, Play, Archive, MoreHorizontal, BarChart3, Calendar } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { CreateTargetDialog } from "./create-target-dialog";
 import { EditTargetDialog } from "./edit-target-dialog";
 import { TargetPerformance } from "./target-performance";
+import type { TierEntitlements } from "@/lib/entitlements";
 
 interface MonitoringTarget {
   id: string;
   name: string;
-  target_type: 'topic' | 'twitter_list';
+  target_type: 'topic' | 'twitter_list' | 'accounts';
   status: 'active' | 'paused' | 'archived';
   created_at: string;
   updated_at: string;
@@ -25,13 +26,19 @@ interface MonitoringTarget {
     min_engagement: number;
     languages: string[];
   };
-  twitter_list_targets?: Array<{
+  twitter_list_targets?: {
     id: string;
     twitter_list_id: string;
     list_name: string;
     list_owner_handle: string;
     include_retweets: boolean;
     max_posts_per_day: number;
+  };
+  account_targets?: Array<{
+    id: string;
+    twitter_user_id: string;
+    twitter_handle: string;
+    display_name: string | null;
   }>;
 }
 
@@ -46,13 +53,14 @@ interface TargetsManagementProps {
   userId: string;
   initialTargets: MonitoringTarget[];
   targetStats: TargetStats[];
+  entitlements: TierEntitlements;
   profile: { daily_digest_time?: string; voice_training_samples?: string[] } | null;
 }
 
 export function TargetsManagement({ 
-  userId, 
   initialTargets, 
-  targetStats 
+  targetStats,
+  entitlements
 }: TargetsManagementProps) {
   const [targets, setTargets] = useState<MonitoringTarget[]>(initialTargets);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -63,6 +71,10 @@ export function TargetsManagement({
   const pausedTargets = targets.filter(t => t.status === 'paused');
   const archivedTargets = targets.filter(t => t.status === 'archived');
 
+  // Archived targets don't count against the plan's target limit
+  const targetCount = activeTargets.length + pausedTargets.length;
+  const atTargetLimit = entitlements.maxTargets !== null && targetCount >= entitlements.maxTargets;
+
   const getTargetStats = (targetId: string) => {
     return targetStats.find(s => s.targetId === targetId);
   };
@@ -112,7 +124,9 @@ export function TargetsManagement({
 
   const renderTarget = (target: MonitoringTarget) => {
     const stats = getTargetStats(target.id);
-    const config = target.target_type === 'topic' ? target.topic_targets : target.twitter_list_targets?.[0];
+    const topicConfig = target.target_type === 'topic' ? target.topic_targets : undefined;
+    const listConfig = target.target_type === 'twitter_list' ? target.twitter_list_targets : undefined;
+    const watchedAccounts = target.target_type === 'accounts' ? target.account_targets || [] : undefined;
 
     return (
       <Card key={target.id} className="relative">
@@ -120,10 +134,16 @@ export function TargetsManagement({
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <div className={`p-2 rounded-full ${
-                target.target_type === 'topic' ? 'bg-blue-100 text-blue-600' : 'bg-purple-100 text-purple-600'
+                target.target_type === 'topic'
+                  ? 'bg-blue-100 text-blue-600'
+                  : target.target_type === 'accounts'
+                    ? 'bg-green-100 text-green-600'
+                    : 'bg-purple-100 text-purple-600'
               }`}>
                 {target.target_type === 'topic' ? (
                   <Hash className="h-4 w-4" />
+                ) : target.target_type === 'accounts' ? (
+                  <Users className="h-4 w-4" />
                 ) : (
                   <List className="h-4 w-4" />
                 )}
@@ -135,7 +155,9 @@ export function TargetsManagement({
                     {target.status}
                   </Badge>
                   <span className="text-xs">
-                    {target.target_type === 'topic' ? 'Topic Target' : 'Twitter List'}
+                    {target.target_type === 'topic'
+                      ? 'Topic Target'
+                      : target.target_type === 'accounts' ? 'Account Watchlist' : 'Twitter List'}
                   </span>
                 </CardDescription>
               </div>
@@ -186,38 +208,38 @@ export function TargetsManagement({
 
         <CardContent className="space-y-4">
           {/* Target Configuration Display */}
-          {target.target_type === 'topic' && config && (
+          {topicConfig && (
             <div className="space-y-3">
-              {config.keywords && config.keywords.length > 0 && (
+              {topicConfig.keywords && topicConfig.keywords.length > 0 && (
                 <div>
                   <p className="text-xs font-medium text-muted-foreground mb-2">Keywords</p>
                   <div className="flex flex-wrap gap-1">
-                    {config.keywords.slice(0, 3).map((keyword: string) => (
+                    {topicConfig.keywords.slice(0, 3).map((keyword: string) => (
                       <Badge key={keyword} variant="secondary" className="text-xs">
                         {keyword}
                       </Badge>
                     ))}
-                    {config.keywords.length > 3 && (
+                    {topicConfig.keywords.length > 3 && (
                       <Badge variant="outline" className="text-xs">
-                        +{config.keywords.length - 3} more
+                        +{topicConfig.keywords.length - 3} more
                       </Badge>
                     )}
                   </div>
                 </div>
               )}
 
-              {config.hashtags && config.hashtags.length > 0 && (
+              {topicConfig.hashtags && topicConfig.hashtags.length > 0 && (
                 <div>
                   <p className="text-xs font-medium text-muted-foreground mb-2">Hashtags</p>
                   <div className="flex flex-wrap gap-1">
-                    {config.hashtags.slice(0, 3).map((hashtag: string) => (
+                    {topicConfig.hashtags.slice(0, 3).map((hashtag: string) => (
                       <Badge key={hashtag} variant="secondary" className="text-xs">
                         {hashtag}
                       </Badge>
                     ))}
-                    {config.hashtags.length > 3 && (
+                    {topicConfig.hashtags.length > 3 && (
                       <Badge variant="outline" className="text-xs">
-                        +{config.hashtags.length - 3} more
+                        +{topicConfig.hashtags.length - 3} more
                       </Badge>
                     )}
                   </div>
@@ -226,19 +248,41 @@ export function TargetsManagement({
             </div>
           )}
 
-          {target.target_type === 'twitter_list' && config && (
+          {listConfig && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">List:</span>
-                <span className="font-medium">{config.list_name}</span>
+                <span className="font-medium">{listConfig.list_name}</span>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Owner:</span>
-                <span>@{config.list_owner_handle}</span>
+                <span>@{listConfig.list_owner_handle}</span>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Daily Limit:</span>
-                <span>{config.max_posts_per_day} posts</span>
+                <span>{listConfig.max_posts_per_day} posts</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Retweets:</span>
+                <span>{listConfig.include_retweets ? 'Included' : 'Excluded'}</span>
+              </div>
+            </div>
+          )}
+
+          {watchedAccounts && watchedAccounts.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Accounts</p>
+              <div className="flex flex-wrap gap-1">
+                {watchedAccounts.slice(0, 5).map((account) => (
+                  <Badge key={account.id} variant="secondary" className="text-xs">
+                    @{account.twitter_handle}
+                  </Badge>
+                ))}
+                {watchedAccounts.length > 5 && (
+                  <Badge variant="outline" className="text-xs">
+                    +{watchedAccounts.length - 5} more
+                  </Badge>
+                )}
               </div>
             </div>
           )}
@@ -304,14 +348,14 @@ export function TargetsManagement({
             </CardContent>
           </Card>
 
-          <Card className="cursor-pointer hover:shadow-md transition-shadow opacity-50">
+          <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setShowCreateDialog(true)}>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <List className="h-5 w-5" />
                 Twitter List Monitoring
               </CardTitle>
               <CardDescription>
-                Monitor tweets from your Twitter lists (Coming Soon)
+                Monitor tweets from public Twitter lists
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -320,16 +364,16 @@ export function TargetsManagement({
                   Keep track of posts from curated Twitter lists you follow or own.
                 </p>
                 <ul className="text-sm space-y-1 text-muted-foreground">
-                  <li>• Select from your Twitter lists</li>
+                  <li>• Paste any public list URL</li>
                   <li>• Control retweet inclusion</li>
                   <li>• Set daily post limits</li>
                   <li>• Focus on quality content</li>
                 </ul>
               </div>
               
-              <Button className="w-full" variant="outline" disabled>
+              <Button className="w-full" variant="outline">
                 <List className="mr-2 h-4 w-4" />
-                Coming Soon
+                Create List Target
               </Button>
             </CardContent>
           </Card>
@@ -363,14 +407,29 @@ export function TargetsManagement({
             {pausedTargets.length > 0 && <span>{pausedTargets.length} paused</span>}
             {archivedTargets.length > 0 && <span>{archivedTargets.length} archived</span>}
           </div>
+          <p className="text-xs text-muted-foreground">
+            {entitlements.maxTargets === null
+              ? `Unlimited targets on the ${entitlements.displayName} plan`
+              : `${targetCount} of ${entitlements.maxTargets} targets used on the ${entitlements.displayName} plan`}
+          </p>
         </div>
         
-        <Button onClick={() => setShowCreateDialog(true)}>
+        <Button
+          onClick={() => setShowCreateDialog(true)}
+          disabled={atTargetLimit}
+          title={atTargetLimit ? "Upgrade your plan or archive a target to add another" : undefined}
+        >
           <Plus className="mr-2 h-4 w-4" />
           Add Target
         </Button>
       </div>
 
+      {atTargetLimit && (
+        <p className="text-sm text-muted-foreground">
+          You&apos;ve reached the {entitlements.maxTargets} {entitlements.maxTargets === 1 ? "target" : "targets"} included in the {entitlements.displayName} plan. Upgrade to monitor more topics, lists and accounts.
+        </p>
+      )}
+
       {/* Active Targets */}
       {activeTargets.length > 0 && (
         <div className="space-y-4">
@@ -403,7 +462,8 @@ export function TargetsManagement({
 
       {/* Dialogs */}
       <CreateTargetDialog
-        userId={userId}
+        entitlements={entitlements}
+        targetCount={targetCount}
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
         onTargetCreated={(newTarget) => {
@@ -2,19 +2,46 @@ import { createServiceClient } from '@/lib/supabase/server';
 import { SearchBroker } from './search-broker';
 import { TweetFilter } from './tweet-filter';
 import { ReplyGenerator } from './reply-generator';
+import { RelationshipScorer, BASE_RELATIONSHIP_SCORE } from './relationship-scorer';
+import { UserBudgetService, affordableCount } from './user-budget';
+import { EntitlementsService } from './entitlements';
+import { getLocalDate, resolveTimezone } from './timezone';
+import { CHECK_WINDOW_MINUTES, cumulativeCheckShare } from './check-schedule';
+import { X_COST_PER_POST_READ } from './usage-ledger';
+import { ThreadContextService } from './thread-context';
+
+// Posts from accounts the user explicitly watches are treated as high-relationship
+const WATCHLIST_RELATIONSHIP_SCORE = 0.9;
+
+// Final ranking blends reply worthiness (TweetFilter) with the relationship to the author
+const RELEVANCE_RANK_WEIGHT = 0.7;
+const RELATIONSHIP_RANK_WEIGHT = 0.3;
+
+// Replies read per run to give posts their conversation context
+const MAX_CONTEXT_READS = 20;
 
 interface EligibleUser {
   user_id: string;
   replies_left_today: number;
   current_target_index: number;
   fetch_size: number;
+  daily_posts_fetched: number;
+  daily_replies_generated: number;
   last_served_at: string | null;
 }
 
+// An eligible user inside the window before one of their scheduled checks
+interface ScheduledUser extends EligibleUser {
+  check_index: number;
+  check_count: number;
+}
+
 interface MonitoringTarget {
   id: string;
   name: string;
   status: string;
+  target_type: 'topic' | 'twitter_list' | 'accounts';
+  last_seen_tweet_id: string | null;
   topic_targets: {
     id: string;
     keywords: string[];
@@ -22,22 +49,52 @@ interface MonitoringTarget {
     exclude_keywords: string[];
     min_engagement: number;
     languages: string[];
-  };
+    exact_phrases: string[] | null;
+    keyword_groups: string[][] | null;
+    from_accounts: string[] | null;
+    to_accounts: string[] | null;
+    include_filters: string[] | null;
+    exclude_filters: string[] | null;
+    conversation_id: string | null;
+    place_country: string | null;
+    raw_query: string | null;
+  } | null;
+  twitter_list_targets: {
+    id: string;
+    twitter_list_id: string;
+    include_retweets: boolean;
+    max_posts_per_day: number;
+  } | null;
+  account_targets: Array<{
+    id: string;
+    twitter_user_id: string;
+    twitter_handle: string;
+    last_seen_tweet_id: string | null;
+  }> | null;
+}
+
+interface CuratedPostRef {
+  id: string;
+  monitoring_target_id: string | null;
 }
 
 interface ProcessingResult {
   userId: string;
   targetId: string;
   tweetsProcessed: number;
+  tweetsFromApi: number; // Tweets read from X in this run (cache hits are free)
   repliesGenerated: number;
   cacheHit: boolean;
   error?: string;
 }
 
-interface BatchProcessingStats {
+export interface BatchProcessingStats {
   usersProcessed: number;
   totalTweets: number;
+  tweetsFromApi: number;
   totalReplies: number;
+  cacheHits: number;
+  cacheMisses: number;
   cacheHitRate: number;
   errors: string[];
 }
@@ -46,44 +103,49 @@ export class BatchProcessor {
   private searchBroker: SearchBroker;
   private tweetFilter: TweetFilter;
   private replyGenerator: ReplyGenerator;
+  private relationshipScorer: RelationshipScorer;
+  private userBudget: UserBudgetService;
+  private entitlements: EntitlementsService;
+  private threadContext: ThreadContextService;
   private processingStats: BatchProcessingStats;
 
   constructor() {
     this.searchBroker = new SearchBroker();
     this.tweetFilter = new TweetFilter();
     this.replyGenerator = new ReplyGenerator();
+    this.relationshipScorer = new RelationshipScorer();
+    this.userBudget = new UserBudgetService();
+    this.entitlements = new EntitlementsService();
+    this.threadContext = new ThreadContextService();
     this.processingStats = {
       usersProcessed: 0,
       totalTweets: 0,
+      tweetsFromApi: 0,
       totalReplies: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
       cacheHitRate: 0,
       errors: []
     };
   }
 
   /**
-   * Select users eligible for processing based on quotas and cooldown
+   * Select users eligible for processing based on quotas, cooldown and their check schedule
    */
-  async selectEligibleUsers(limit: number = 10): Promise<EligibleUser[]> {
+  async selectEligibleUsers(limit: number = 10): Promise<ScheduledUser[]> {
     try {
       const supabase = createServiceClient();
       
       // Calculate cutoff time for cooldown (15 minutes ago)
       const cooldownCutoff = new Date(Date.now() - 15 * 60 * 1000).toISOString();
       
-      const { data: users, error } = await supabase
-        .from('user_processing_state')
-        .select(`
-          user_id,
-          replies_left_today,
-          current_target_index,
-          fetch_size,
-          last_served_at
-        `)
-        .gt('replies_left_today', 0) // Must have replies left
-        .or(`last_served_at.is.null,last_served_at.lt.${cooldownCutoff}`) // Cooldown check
-        .order('last_served_at', { ascending: true, nullsFirst: true }) // FIFO with nulls first
-        .limit(limit);
+      // Users with replies left, past the cooldown and in the window before a check time (FIFO)
+      const { data, error } = await supabase.rpc('select_users_due_for_processing', {
+        p_window_minutes: CHECK_WINDOW_MINUTES,
+        p_cooldown_cutoff: cooldownCutoff,
+        p_limit: limit
+      });
+      const users = data as ScheduledUser[] | null;
 
       if (error) {
         console.error('Error selecting eligible users:', error);
@@ -91,7 +153,7 @@ export class BatchProcessor {
       }
 
       // Filter users who actually have active monitoring targets
-      const usersWithTargets = [];
+      const usersWithTargets: ScheduledUser[] = [];
       for (const user of users || []) {
         const hasActiveTargets = await this.userHasActiveTargets(user.user_id);
         if (hasActiveTargets) {
@@ -99,8 +161,40 @@ export class BatchProcessor {
         }
       }
 
-      console.log(`BatchProcessor: Selected ${usersWithTargets.length} eligible users from ${users?.length || 0} candidates`);
-      return usersWithTargets;
+      // Skip users who have used this check's share of their tier's replies or posts;
+      // a fetch may start while under the share but never passes the daily post limit
+      const tiers = await this.entitlements.getUserEntitlements(usersWithTargets.map(user => user.user_id));
+      const usersWithPosts = usersWithTargets.filter(user => {
+        const tier = tiers.get(user.user_id);
+        if (!tier) return true;
+
+        const replyShare = cumulativeCheckShare(tier.repliesPerDay, user.check_index, user.check_count);
+        const postShare = cumulativeCheckShare(tier.postsPerDay, user.check_index, user.check_count);
+        return user.daily_replies_generated < replyShare &&
+          user.daily_posts_fetched < postShare &&
+          user.daily_posts_fetched + user.fetch_size <= tier.postsPerDay;
+      });
+      if (usersWithPosts.length < usersWithTargets.length) {
+        console.log(`BatchProcessor: ${usersWithTargets.length - usersWithPosts.length} users skipped for reaching this check's reply or post share`);
+      }
+
+      // Skip users whose daily or monthly allowance can't cover another fetch
+      const budgets = await this.userBudget.getBudgets(usersWithPosts.map(user => user.user_id));
+      const usersWithBudget = usersWithPosts.filter(user => {
+        const budget = budgets.get(user.user_id);
+        return !budget || budget.remaining >= user.fetch_size * X_COST_PER_POST_READ;
+      });
+      if (usersWithBudget.length < usersWithPosts.length) {
+        console.log(`BatchProcessor: ${usersWithPosts.length - usersWithBudget.length} users skipped for exhausted budgets`);
+      }
+
+      // The limit is applied before these checks, so skipped users are moved to the back of the
+      // queue; otherwise they would keep taking the first slots and starve the users behind them
+      const selected = new Set(usersWithBudget.map(user => user.user_id));
+      await this.deferUsers((users || []).filter(user => !selected.has(user.user_id)).map(user => user.user_id));
+
+      console.log(`BatchProcessor: Selected ${usersWithBudget.length} eligible users from ${users?.length || 0} candidates`);
+      return usersWithBudget;
     } catch (error) {
       console.error('Error in selectEligibleUsers:', error);
       return [];
@@ -145,13 +239,36 @@ export class BatchProcessor {
           id,
           name,
           status,
+          target_type,
+          last_seen_tweet_id,
           topic_targets (
             id,
             keywords,
             hashtags,
             exclude_keywords,
             min_engagement,
-            languages
+            languages,
+            exact_phrases,
+            keyword_groups,
+            from_accounts,
+            to_accounts,
+            include_filters,
+            exclude_filters,
+            conversation_id,
+            place_country,
+            raw_query
+          ),
+          twitter_list_targets (
+            id,
+            twitter_list_id,
+            include_retweets,
+            max_posts_per_day
+          ),
+          account_targets (
+            id,
+            twitter_user_id,
+            twitter_handle,
+            last_seen_tweet_id
           )
         `)
         .eq('user_id', userId)
@@ -163,7 +280,8 @@ export class BatchProcessor {
         return [];
       }
 
-      return targets || [];
+      // One-to-one relations come back as objects, not the arrays the generated types assume
+      return (targets || []) as unknown as MonitoringTarget[];
     } catch (error) {
       console.error(`Error in getUserTargets for ${userId}:`, error);
       return [];
@@ -178,6 +296,7 @@ export class BatchProcessor {
       userId,
       targetId: '',
       tweetsProcessed: 0,
+      tweetsFromApi: 0,
       repliesGenerated: 0,
       cacheHit: false
     };
@@ -192,6 +311,21 @@ export class BatchProcessor {
         return result;
       }
 
+      // Each fetch reads up to fetch_size posts; stop once another would pass the tier's daily posts
+      const tier = await this.entitlements.getEntitlements(userId);
+      if (userState.daily_posts_fetched + userState.fetch_size > tier.postsPerDay) {
+        result.error = `Daily post limit reached (${userState.daily_posts_fetched} of ${tier.postsPerDay} on the ${tier.displayName} plan)`;
+        return result;
+      }
+
+      // Stop before fetching if the user's allowance can't cover a full fetch (cache hits are free,
+      // but that isn't known until the search runs)
+      const budget = await this.userBudget.getBudget(userId);
+      if (budget.remaining < userState.fetch_size * X_COST_PER_POST_READ) {
+        result.error = `API budget exhausted ($${budget.spentToday.toFixed(2)} of $${budget.dailyLimit.toFixed(2)} today, $${budget.spentThisMonth.toFixed(2)} of $${budget.monthlyLimit.toFixed(2)} this month)`;
+        return result;
+      }
+
       // Get user's active targets
       const targets = await this.getUserTargets(userId);
       if (targets.length === 0) {
@@ -199,49 +333,147 @@ export class BatchProcessor {
         return result;
       }
 
+      // Posts are filed under the user's own calendar day
+      const digestDate = getLocalDate(await this.getUserTimezone(userId));
+
       // Round-robin: select next target
       const targetIndex = userState.current_target_index % targets.length;
       const currentTarget = targets[targetIndex];
-      const topicConfig = currentTarget.topic_targets;
-      
-      if (!topicConfig) {
-        result.error = 'Target has no topic configuration';
-        return result;
-      }
 
       result.targetId = currentTarget.id;
       
       console.log(`BatchProcessor: User ${userId} processing target "${currentTarget.name}" (${targetIndex + 1}/${targets.length})`);
 
-      // Add monitoring_target_id to topicConfig for SearchBroker
-      const topicConfigWithTargetId = {
-        ...topicConfig,
-        monitoring_target_id: currentTarget.id
-      };
+      // Every X and LLM call below is recorded against this user and target
+      const usage = { userId, monitoringTargetId: currentTarget.id };
 
-      // Fetch tweets via Search Broker
-      // const cacheStatsBefore = this.searchBroker.getCacheStats();
-      const tweets = await this.searchBroker.fetchTweets(topicConfigWithTargetId, userState.fetch_size);
-      // const cacheStatsAfter = this.searchBroker.getCacheStats();
-      
-      // result.cacheHit = cacheStatsAfter.hits > cacheStatsBefore.hits;
-      result.tweetsProcessed = tweets.length;
+      let tweets;
+      let newestTweetId: string | undefined;
+      let postLimit = Infinity;
+      let isWatchlist = false;
+
+      if (currentTarget.target_type === 'accounts') {
+        const accounts = currentTarget.account_targets || [];
+
+        if (accounts.length === 0) {
+          result.error = 'Target has no watched accounts';
+          return result;
+        }
 
-      // Filter tweets for quality
-      const filteredTweets = await this.tweetFilter.filterForQuality(tweets);
-      console.log(`BatchProcessor: Filtered ${tweets.length} tweets to ${filteredTweets.length} quality tweets`);
+        const accountTweets = await this.searchBroker.fetchAccountTweets(accounts, userState.fetch_size, usage);
+        tweets = accountTweets.tweets;
+        isWatchlist = true;
+
+        // Advance the since_id cursors right away so the same posts aren't fetched again
+        await this.updateAccountCursors(accountTweets.newestTweetIds);
+      } else if (currentTarget.target_type === 'twitter_list') {
+        const listConfig = currentTarget.twitter_list_targets;
+
+        if (!listConfig) {
+          result.error = 'Target has no list configuration';
+          return result;
+        }
+
+        postLimit = await this.getRemainingListPosts(currentTarget.id, listConfig.max_posts_per_day, digestDate);
+        if (postLimit <= 0) {
+          console.log(`BatchProcessor: List target "${currentTarget.name}" reached its daily limit of ${listConfig.max_posts_per_day} posts`);
+          await this.updateUserState(userId, {
+            current_target_index: targetIndex + 1,
+            last_served_at: new Date().toISOString()
+          });
+          return result;
+        }
+
+        const listResult = await this.searchBroker.fetchListTweets({
+          ...listConfig,
+          monitoring_target_id: currentTarget.id
+        }, userState.fetch_size, currentTarget.last_seen_tweet_id, usage);
+        tweets = listResult.tweets;
+        newestTweetId = listResult.newestTweetId;
+      } else {
+        const topicConfig = currentTarget.topic_targets;
+        
+        if (!topicConfig) {
+          result.error = 'Target has no topic configuration';
+          return result;
+        }
+
+        // Add monitoring_target_id to topicConfig for SearchBroker
+        const topicConfigWithTargetId = {
+          ...topicConfig,
+          monitoring_target_id: currentTarget.id
+        };
+
+        // Fetch tweets via Search Broker (shared cache across users)
+        const searchResult = await this.searchBroker.fetchTweets(
+          topicConfigWithTargetId,
+          userState.fetch_size,
+          currentTarget.last_seen_tweet_id,
+          usage
+        );
+        tweets = searchResult.tweets;
+        newestTweetId = searchResult.newestTweetId;
+        result.cacheHit = searchResult.cacheHit === true;
+      }
+
+      result.tweetsProcessed = tweets.length;
+      result.tweetsFromApi = result.cacheHit ? 0 : tweets.length;
+
+      // Tweets already curated for this user (by another target or an earlier run) are not scored again
+      const existingPosts = await this.getCuratedPostsByTweetId(userId, tweets.map(tweet => tweet.id));
+      await this.recordAdditionalSources(Array.from(existingPosts.values()), currentTarget.id);
+
+      // Filter tweets for quality, scoring only as many as the remaining budget covers
+      const scoreLimit = affordableCount(await this.userBudget.getBudget(userId), this.tweetFilter.estimateCost(1));
+      const qualityTweets = await this.tweetFilter.filterForQuality(
+        tweets,
+        new Set(existingPosts.keys()),
+        usage,
+        scoreLimit
+      );
+
+      // Rank by reply worthiness and relationship so people the user engages with come first
+      const relationshipScores = await this.relationshipScorer.getScores(
+        userId,
+        qualityTweets.map(tweet => tweet.author_id)
+      );
+      if (isWatchlist) {
+        relationshipScores.forEach((score, authorId) => {
+          relationshipScores.set(authorId, Math.max(score, WATCHLIST_RELATIONSHIP_SCORE));
+        });
+      }
+      const rankedTweets = this.rankTweets(qualityTweets, relationshipScores).slice(0, postLimit);
+      console.log(`BatchProcessor: Filtered ${tweets.length} tweets to ${rankedTweets.length} quality tweets`);
+
+      // Keep only the posts the remaining budget can generate replies for
+      const replyLimit = affordableCount(await this.userBudget.getBudget(userId), this.replyGenerator.estimateCost(1));
+      const filteredTweets = rankedTweets.slice(0, Math.min(replyLimit, userState.replies_left_today));
+      if (filteredTweets.length < rankedTweets.length) {
+        console.log(`BatchProcessor: User ${userId} budget and daily replies cover ${filteredTweets.length} of ${rankedTweets.length} posts`);
+      }
 
 
       // Store curated posts and generate replies
       if (filteredTweets.length > 0) {
+        // Thread context reads come out of what the budget leaves after generating the replies
+        const budget = await this.userBudget.getBudget(userId);
+        const contextReads = Math.min(MAX_CONTEXT_READS, affordableCount(
+          { ...budget, remaining: budget.remaining - this.replyGenerator.estimateCost(filteredTweets.length) },
+          X_COST_PER_POST_READ
+        ));
+        const contexts = await this.threadContext.getContexts(filteredTweets, contextReads, usage);
+        const postsWithContext = filteredTweets.map(tweet => ({ ...tweet, context: contexts.get(tweet.id) || null }));
+
         // Store the curated posts and get their IDs
-        const curatedPostIds = await this.storeCuratedPosts(userId, filteredTweets, currentTarget.id);
+        const storedPostIds = await this.storeCuratedPosts(userId, postsWithContext, currentTarget.id, relationshipScores, digestDate);
 
-        // Generate AI replies for the curated posts
+        // Generate AI replies only for posts that were actually created in this run
+        const newTweets = postsWithContext.filter(tweet => storedPostIds.has(tweet.id));
         const generatedReplies = await this.replyGenerator.generateRepliesForPosts(
           userId,
-          filteredTweets,
-          curatedPostIds
+          newTweets,
+          newTweets.map(tweet => storedPostIds.get(tweet.id)!),
+          currentTarget.id
         );
 
         result.repliesGenerated = generatedReplies.length;
@@ -254,12 +486,14 @@ export class BatchProcessor {
         current_target_index: targetIndex + 1,
         last_served_at: new Date().toISOString(),
         replies_left_today: userState.replies_left_today - filteredTweets.length,
+        daily_replies_generated: userState.daily_replies_generated + result.repliesGenerated,
+        daily_posts_fetched: userState.daily_posts_fetched + tweets.length,
       });
 
       // TODO: we need to check logic for updating the target stats -  last_fetched_at and fetch_count_today
 
       // Update target tracking
-      await this.updateTargetStats(currentTarget.id, tweets.length);
+      await this.updateTargetStats(currentTarget.id, tweets.length, newestTweetId);
 
       console.log(`BatchProcessor: User ${userId} processed ${filteredTweets.length} tweets, ${userState.replies_left_today - filteredTweets.length} replies remaining`);
       
@@ -271,6 +505,25 @@ export class BatchProcessor {
     }
   }
 
+  /**
+   * Get the user's timezone, falling back to UTC
+   */
+  private async getUserTimezone(userId: string): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('users_profiles')
+      .select('timezone')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error(`Error fetching timezone for ${userId}:`, error);
+    }
+
+    return resolveTimezone(data?.timezone);
+  }
+
   /**
    * Get user's current processing state
    */
@@ -296,6 +549,29 @@ export class BatchProcessor {
     }
   }
 
+  /**
+   * Move users skipped this run behind the others by marking them as served
+   */
+  private async deferUsers(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    try {
+      const supabase = createServiceClient();
+      const now = new Date().toISOString();
+
+      const { error } = await supabase
+        .from('user_processing_state')
+        .update({ last_served_at: now, updated_at: now })
+        .in('user_id', userIds);
+
+      if (error) {
+        console.error('Error deferring skipped users:', error);
+      }
+    } catch (error) {
+      console.error('Error in deferUsers:', error);
+    }
+  }
+
   /**
    * Update user's processing state
    */
@@ -323,7 +599,13 @@ export class BatchProcessor {
    * Store curated posts for reply generation
    * Returns array of created post IDs
    */
-  private async storeCuratedPosts(userId: string, tweets: any[], targetId: string): Promise<string[]> {
+  private async storeCuratedPosts(
+    userId: string,
+    tweets: any[],
+    targetId: string,
+    relationshipScores: Map<string, number>,
+    digestDate: string
+  ): Promise<Map<string, string>> {
     try {
       const supabase = createServiceClient();
       
@@ -332,37 +614,193 @@ export class BatchProcessor {
         monitoring_target_id: targetId,
         twitter_post_id: tweet.id,
         post_content: tweet.text,
-        post_author_handle: tweet.author_id, // We'd need to resolve this to handle
+        // Author details come from the user expansion; fall back to the id if it was missing
+        post_author_handle: tweet.author?.username || tweet.author_id,
         post_author_id: tweet.author_id,
-        post_url: `https://twitter.com/i/status/${tweet.id}`,
+        post_author_name: tweet.author?.name || null,
+        post_author_avatar_url: tweet.author?.profile_image_url || null,
+        post_author_followers_count: tweet.author?.followers_count ?? null,
+        post_author_verified: tweet.author?.verified ?? false,
+        post_url: tweet.author?.username
+          ? `https://twitter.com/${tweet.author.username}/status/${tweet.id}`
+          : `https://twitter.com/i/status/${tweet.id}`,
         post_created_at: tweet.created_at,
         relevance_score: tweet.score || 0.5,
-        relationship_score: 0.5, // TODO: Calculate based on author relationship
-        digest_date: new Date().toISOString().split('T')[0] // Today's date
+        relationship_score: relationshipScores.get(tweet.author_id) ?? BASE_RELATIONSHIP_SCORE,
+        digest_date: digestDate,
+        conversation_id: tweet.conversation_id || null,
+        thread_context: tweet.context || null
       }));
 
+      // Rows that already exist for (user, tweet) are left alone and not returned
       const { data, error } = await supabase
         .from('curated_posts')
-        .insert(curatedPosts)
-        .select('id');
+        .upsert(curatedPosts, { onConflict: 'user_id,twitter_post_id', ignoreDuplicates: true })
+        .select('id, twitter_post_id');
 
       if (error) {
         console.error('Error storing curated posts:', error);
-        return [];
-      } else {
-        console.log(`BatchProcessor: Stored ${curatedPosts.length} curated posts for user ${userId}`);
-        return data.map(post => post.id);
+        return new Map();
+      }
+
+      const storedPostIds = new Map<string, string>(
+        (data || []).map(post => [post.twitter_post_id, post.id])
+      );
+      console.log(`BatchProcessor: Stored ${storedPostIds.size} curated posts for user ${userId}`);
+
+      // Another run curated some of these in the meantime; record this target as a source instead
+      const skippedTweetIds = curatedPosts
+        .map(post => post.twitter_post_id)
+        .filter(tweetId => !storedPostIds.has(tweetId));
+      if (skippedTweetIds.length > 0) {
+        console.log(`BatchProcessor: Skipped ${skippedTweetIds.length} already curated posts for user ${userId}`);
+        const existingPosts = await this.getCuratedPostsByTweetId(userId, skippedTweetIds);
+        await this.recordAdditionalSources(Array.from(existingPosts.values()), targetId);
       }
+
+      return storedPostIds;
     } catch (error) {
       console.error('Error in storeCuratedPosts:', error);
-      return [];
+      return new Map();
+    }
+  }
+
+  /**
+   * Order tweets by a blend of their quality score (0-100) and the author relationship score (0-1)
+   */
+  private rankTweets<T extends { author_id: string; score: number }>(
+    tweets: T[],
+    relationshipScores: Map<string, number>
+  ): T[] {
+    const rank = (tweet: T) =>
+      RELEVANCE_RANK_WEIGHT * Math.min(tweet.score / 100, 1) +
+      RELATIONSHIP_RANK_WEIGHT * (relationshipScores.get(tweet.author_id) ?? BASE_RELATIONSHIP_SCORE);
+
+    return [...tweets].sort((a, b) => rank(b) - rank(a));
+  }
+
+  /**
+   * Look up posts already curated for a user, keyed by tweet id
+   */
+  private async getCuratedPostsByTweetId(userId: string, tweetIds: string[]): Promise<Map<string, CuratedPostRef>> {
+    const existingPosts = new Map<string, CuratedPostRef>();
+    if (tweetIds.length === 0) {
+      return existingPosts;
+    }
+
+    try {
+      const supabase = createServiceClient();
+
+      const { data, error } = await supabase
+        .from('curated_posts')
+        .select('id, twitter_post_id, monitoring_target_id')
+        .eq('user_id', userId)
+        .in('twitter_post_id', tweetIds);
+
+      if (error) {
+        console.error(`Error looking up curated posts for ${userId}:`, error);
+        return existingPosts;
+      }
+
+      for (const post of data || []) {
+        existingPosts.set(post.twitter_post_id, {
+          id: post.id,
+          monitoring_target_id: post.monitoring_target_id
+        });
+      }
+    } catch (error) {
+      console.error(`Error in getCuratedPostsByTweetId for ${userId}:`, error);
+    }
+
+    return existingPosts;
+  }
+
+  /**
+   * Record a target as an additional source of posts that were first curated by another target
+   */
+  private async recordAdditionalSources(posts: CuratedPostRef[], targetId: string): Promise<void> {
+    const sources = posts
+      .filter(post => post.monitoring_target_id !== targetId)
+      .map(post => ({
+        curated_post_id: post.id,
+        monitoring_target_id: targetId
+      }));
+
+    if (sources.length === 0) {
+      return;
+    }
+
+    try {
+      const supabase = createServiceClient();
+
+      const { error } = await supabase
+        .from('curated_post_sources')
+        .upsert(sources, { onConflict: 'curated_post_id,monitoring_target_id', ignoreDuplicates: true });
+
+      if (error) {
+        console.error(`Error recording sources for target ${targetId}:`, error);
+      }
+    } catch (error) {
+      console.error('Error in recordAdditionalSources:', error);
+    }
+  }
+
+  /**
+   * Store the newest seen tweet id for each polled watchlist account
+   */
+  private async updateAccountCursors(newestTweetIds: Record<string, string>): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+      const now = new Date().toISOString();
+
+      for (const [accountTargetId, tweetId] of Object.entries(newestTweetIds)) {
+        const { error } = await supabase
+          .from('account_targets')
+          .update({
+            last_seen_tweet_id: tweetId,
+            last_polled_at: now,
+            updated_at: now
+          })
+          .eq('id', accountTargetId);
+
+        if (error) {
+          console.error(`Error updating cursor for account target ${accountTargetId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error in updateAccountCursors:', error);
+    }
+  }
+
+  /**
+   * How many more posts a list target may add to today's digest
+   */
+  private async getRemainingListPosts(targetId: string, maxPostsPerDay: number, digestDate: string): Promise<number> {
+    try {
+      const supabase = createServiceClient();
+      
+      const { count, error } = await supabase
+        .from('curated_posts')
+        .select('*', { count: 'exact', head: true })
+        .eq('monitoring_target_id', targetId)
+        .eq('digest_date', digestDate);
+
+      if (error) {
+        console.error(`Error counting today's posts for target ${targetId}:`, error);
+        return 0;
+      }
+
+      return maxPostsPerDay - (count || 0);
+    } catch (error) {
+      console.error(`Error in getRemainingListPosts for ${targetId}:`, error);
+      return 0;
     }
   }
 
   /**
    * Update target processing statistics
    */
-  private async updateTargetStats(targetId: string, totalFetched: number): Promise<void> {
+  private async updateTargetStats(targetId: string, totalFetched: number, newestTweetId?: string): Promise<void> {
     try {
       const supabase = createServiceClient();
       
@@ -371,6 +809,8 @@ export class BatchProcessor {
         .update({
           last_fetched_at: new Date().toISOString(),
           fetch_count_today: totalFetched,
+          // Keep the previous cursor when nothing new came back
+          ...(newestTweetId ? { last_seen_tweet_id: newestTweetId } : {}),
           updated_at: new Date().toISOString()
         })
         .eq('id', targetId);
@@ -390,10 +830,14 @@ export class BatchProcessor {
     console.log(`BatchProcessor: Starting batch processing (size: ${batchSize})`);
     
     // Reset stats for this batch
+    this.searchBroker.resetStats();
     this.processingStats = {
       usersProcessed: 0,
       totalTweets: 0,
+      tweetsFromApi: 0,
       totalReplies: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
       cacheHitRate: 0,
       errors: []
     };
@@ -419,12 +863,18 @@ export class BatchProcessor {
       } else {
         this.processingStats.usersProcessed++;
         this.processingStats.totalTweets += result.tweetsProcessed;
+        this.processingStats.tweetsFromApi += result.tweetsFromApi;
         this.processingStats.totalReplies += result.repliesGenerated;
       }
     }
 
+    // Let stale cache entries finish refreshing before the request ends
+    await this.searchBroker.flushRevalidations();
+
     // Calculate cache hit rate
     const cacheStats = this.searchBroker.getCacheStats();
+    this.processingStats.cacheHits = cacheStats.hits;
+    this.processingStats.cacheMisses = cacheStats.misses;
     this.processingStats.cacheHitRate = cacheStats.hitRate;
 
     console.log(`BatchProcessor: Batch complete - ${this.processingStats.usersProcessed} users, ${this.processingStats.totalTweets} tweets, ${this.processingStats.totalReplies} replies, ${Math.round(this.processingStats.cacheHitRate * 100)}% cache hit rate`);
@@ -0,0 +1,64 @@
+// Scheduled checks: a user's day is split into checks at their daily digest time plus any
+// extra check times their tier allows. Processing runs in a window before each check and
+// each check gets its share of the day's replies and posts
+
+// How long before a check time processing starts filling the digest
+export const CHECK_WINDOW_MINUTES = 120;
+
+export const DEFAULT_DIGEST_TIME = '09:00';
+
+/**
+ * Normalize a check time to HH:MM; accepts HH:MM and HH:MM:SS as stored by Postgres
+ */
+export function parseCheckTime(value: unknown): string | null {
+  const match = String(value ?? '').trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+/**
+ * Validate extra check times for a tier: well formed, unique, not the digest time
+ * and within the tier's checks per day. Returns the sorted times or an error
+ */
+export function validateExtraCheckTimes(
+  digestTime: string,
+  values: unknown[],
+  checksPerDay: number
+): { times: string[]; error: string | null } {
+  const times: string[] = [];
+  for (const value of values) {
+    const time = parseCheckTime(value);
+    if (!time) {
+      return { times: [], error: `Invalid check time: ${String(value)}` };
+    }
+    if (time !== digestTime && !times.includes(time)) {
+      times.push(time);
+    }
+  }
+
+  const maxExtra = checksPerDay - 1;
+  if (times.length > maxExtra) {
+    return {
+      times: [],
+      error: maxExtra === 0
+        ? 'Your plan includes one check a day at your digest time. Upgrade to schedule more checks.'
+        : `Your plan includes ${checksPerDay} checks a day: your digest time and ${maxExtra} more`
+    };
+  }
+
+  return { times: times.sort(), error: null };
+}
+
+/**
+ * How much of a daily allowance may be used by the end of a check
+ * Checks share the day evenly, rounded up so the last check reaches the full allowance
+ */
+export function cumulativeCheckShare(dailyAllowance: number, checkIndex: number, checkCount: number): number {
+  if (checkCount <= 1) return dailyAllowance;
+  return Math.ceil((dailyAllowance * (checkIndex + 1)) / checkCount);
+}
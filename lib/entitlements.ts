@@ -0,0 +1,163 @@
+import { createServiceClient } from '@/lib/supabase/server';
+
+// What each subscription tier includes, from the subscription_tiers table (PRD 9)
+
+export type TargetType = 'topic' | 'twitter_list' | 'accounts';
+
+export interface TierEntitlements {
+  tier: string;
+  displayName: string;
+  repliesPerDay: number;
+  postsPerDay: number;
+  fetchSize: number;
+  maxTargets: number | null; // null means unlimited
+  allowedTargetTypes: TargetType[];
+  monthlyBudgetUsd: number;
+  checksPerDay: number; // scheduled checks, counting the daily digest
+  sortOrder: number;
+}
+
+interface SubscriptionTierRow {
+  tier: string;
+  display_name: string;
+  replies_per_day: number;
+  posts_per_day: number;
+  fetch_size: number;
+  max_targets: number | null;
+  allowed_target_types: string[];
+  monthly_budget_usd: number | string;
+  checks_per_day: number;
+  sort_order: number;
+}
+
+export const DEFAULT_TIER = 'free';
+
+const TARGET_TYPE_LABELS: Record<TargetType, string> = {
+  topic: 'Topic',
+  twitter_list: 'Twitter list',
+  accounts: 'Account watchlist'
+};
+
+// Tiers change only with a deploy, so a few minutes of staleness is fine
+const TIERS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+function toEntitlements(row: SubscriptionTierRow): TierEntitlements {
+  return {
+    tier: row.tier,
+    displayName: row.display_name,
+    repliesPerDay: row.replies_per_day,
+    postsPerDay: row.posts_per_day,
+    fetchSize: row.fetch_size,
+    maxTargets: row.max_targets,
+    allowedTargetTypes: row.allowed_target_types as TargetType[],
+    monthlyBudgetUsd: Number(row.monthly_budget_usd),
+    checksPerDay: row.checks_per_day,
+    sortOrder: row.sort_order
+  };
+}
+
+/**
+ * Why a user can't add another target of this type, or null if they can
+ * activeTargetCount counts the user's targets that aren't archived
+ */
+export function checkTargetAllowance(
+  entitlements: TierEntitlements,
+  targetType: TargetType,
+  activeTargetCount: number
+): string | null {
+  if (!entitlements.allowedTargetTypes.includes(targetType)) {
+    return `${TARGET_TYPE_LABELS[targetType]} targets are not included in the ${entitlements.displayName} plan`;
+  }
+
+  if (entitlements.maxTargets !== null && activeTargetCount >= entitlements.maxTargets) {
+    const plural = entitlements.maxTargets === 1 ? 'target' : 'targets';
+    return `The ${entitlements.displayName} plan includes up to ${entitlements.maxTargets} monitoring ${plural}`;
+  }
+
+  return null;
+}
+
+export class EntitlementsService {
+  private tiers: Map<string, TierEntitlements> | null = null;
+  private loadedAt = 0;
+
+  /**
+   * All tiers by key, cheapest first
+   */
+  async getTiers(): Promise<Map<string, TierEntitlements>> {
+    if (this.tiers && Date.now() - this.loadedAt < TIERS_CACHE_TTL_MS) {
+      return this.tiers;
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('subscription_tiers')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error || !data || data.length === 0) {
+      throw new Error(`Failed to load subscription tiers: ${error?.message || 'no tiers defined'}`);
+    }
+
+    this.tiers = new Map((data as SubscriptionTierRow[]).map(row => [row.tier, toEntitlements(row)]));
+    this.loadedAt = Date.now();
+    return this.tiers;
+  }
+
+  /**
+   * Entitlements for a tier; unknown tiers get the free allowance
+   */
+  async getTierEntitlements(tier?: string | null): Promise<TierEntitlements> {
+    const tiers = await this.getTiers();
+    return (tier && tiers.get(tier)) || tiers.get(DEFAULT_TIER)!;
+  }
+
+  /**
+   * Entitlements for each user, from their subscription tier
+   */
+  async getUserEntitlements(userIds: string[]): Promise<Map<string, TierEntitlements>> {
+    const entitlements = new Map<string, TierEntitlements>();
+    if (userIds.length === 0) {
+      return entitlements;
+    }
+
+    const supabase = createServiceClient();
+    const { data: profiles, error } = await supabase
+      .from('users_profiles')
+      .select('id, subscription_tier')
+      .in('id', userIds);
+
+    if (error) {
+      throw new Error(`Failed to load subscription tiers: ${error.message}`);
+    }
+
+    const userTiers = new Map((profiles || []).map(profile => [profile.id, profile.subscription_tier]));
+    for (const userId of userIds) {
+      entitlements.set(userId, await this.getTierEntitlements(userTiers.get(userId)));
+    }
+    return entitlements;
+  }
+
+  async getEntitlements(userId: string): Promise<TierEntitlements> {
+    const entitlements = await this.getUserEntitlements([userId]);
+    return entitlements.get(userId)!;
+  }
+
+  /**
+   * The cheapest tier above the current one that would allow a target of this type
+   * and one more target than the user has now
+   */
+  async getUpgradeTier(
+    current: TierEntitlements,
+    targetType: TargetType,
+    activeTargetCount: number
+  ): Promise<TierEntitlements | null> {
+    const tiers = await this.getTiers();
+    return Array.from(tiers.values()).find(tier =>
+      tier.sortOrder > current.sortOrder && checkTargetAllowance(tier, targetType, activeTargetCount) === null
+    ) || null;
+  }
+}
+
+// Export singleton instance
+export const entitlements = new EntitlementsService();
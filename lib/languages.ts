@@ -0,0 +1,37 @@
+// Languages a topic target can be restricted to, as X `lang:` operator codes
+// An empty selection means any language (no lang clause in the query)
+export const TARGET_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'tr', label: 'Turkish' },
+  { code: 'id', label: 'Indonesian' }
+];
+
+export const DEFAULT_TARGET_LANGUAGES = ['en'];
+
+/**
+ * Validate a languages value from a request body
+ * Returns the de-duplicated codes, or null when the value isn't a list of supported codes
+ */
+export function parseLanguages(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const supported = new Set(TARGET_LANGUAGES.map(language => language.code));
+  const codes = value.map(code => (typeof code === 'string' ? code.trim().toLowerCase() : ''));
+  if (codes.some(code => !supported.has(code))) {
+    return null;
+  }
+
+  return Array.from(new Set(codes));
+}
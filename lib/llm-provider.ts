@@ -0,0 +1,396 @@
+import { OpenAI, APIError, APIConnectionError, APIUserAbortError } from 'openai';
+import { usageLedger, type UsageContext, type UsageLedger } from './usage-ledger';
+import { REPLY_STANCES, STANCE_ORDER } from './reply-variants';
+
+// LLM access shared by tweet scoring, reply generation and onboarding analysis
+// Each task has its own model; any OpenAI-compatible server can be used via LLM_BASE_URL
+
+export type LlmTask = 'scoring' | 'reply' | 'voice_analysis' | 'topic_analysis';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model for a JSON object (response_format json_object)
+  json?: boolean;
+  // User and target the completion is recorded against in the usage ledger
+  context?: UsageContext;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+export interface LlmJsonResponse<T> extends LlmResponse {
+  data: T;
+}
+
+/**
+ * A backend that runs one chat completion
+ * Retries, timeouts and JSON parsing are handled by LlmClient, not by providers
+ */
+export interface LlmProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LlmRequest & { model: string }, signal: AbortSignal): Promise<LlmResponse>;
+}
+
+export type LlmErrorCode =
+  | 'not_configured'
+  | 'timeout'
+  | 'rate_limited'
+  | 'server_error'
+  | 'request_failed'
+  | 'empty_response'
+  | 'invalid_json';
+
+/**
+ * Error thrown for failed LLM calls.
+ * `code` classifies the failure; timeouts, rate limits and server errors are retried.
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LlmErrorCode
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+
+  get retryable(): boolean {
+    return this.code === 'timeout' || this.code === 'rate_limited' || this.code === 'server_error';
+  }
+}
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  scoring: 'gpt-4o-mini',
+  reply: 'gpt-4o-mini',
+  voice_analysis: 'gpt-4o-mini',
+  topic_analysis: 'gpt-4o'
+};
+
+// Placeholder value shipped in example env files
+const PLACEHOLDER_API_KEY = 'your-openai-api-key';
+
+/**
+ * Chat completions against OpenAI or any server exposing the same API (vLLM, Ollama, LM Studio)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+  private apiKey: string;
+  private baseUrl?: string;
+
+  constructor(options: { apiKey?: string; baseUrl?: string } = {}) {
+    this.apiKey = options.apiKey || '';
+    this.baseUrl = options.baseUrl || undefined;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: this.apiKey || 'not-needed',
+      baseURL: this.baseUrl,
+      // Retries and timeouts are applied by LlmClient
+      maxRetries: 0
+    });
+  }
+
+  isConfigured(): boolean {
+    if (this.baseUrl) return true;
+    return !!this.apiKey && this.apiKey !== PLACEHOLDER_API_KEY;
+  }
+
+  async complete(request: LlmRequest & { model: string }, signal: AbortSignal): Promise<LlmResponse> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal });
+
+      return {
+        content: response.choices[0]?.message?.content || '',
+        model: response.model || request.model,
+        usage: {
+          inputTokens: response.usage?.prompt_tokens || 0,
+          outputTokens: response.usage?.completion_tokens || 0
+        }
+      };
+    } catch (error) {
+      throw OpenAiCompatibleProvider.toLlmError(error);
+    }
+  }
+
+  private static toLlmError(error: unknown): LlmError {
+    if (error instanceof APIUserAbortError) {
+      return new LlmError('LLM request timed out', 'timeout');
+    }
+    if (error instanceof APIConnectionError) {
+      return new LlmError(`LLM connection failed: ${error.message}`, 'server_error');
+    }
+    if (error instanceof APIError) {
+      if (error.status === 429) {
+        return new LlmError(`LLM rate limited: ${error.message}`, 'rate_limited');
+      }
+      if (error.status && error.status >= 500) {
+        return new LlmError(`LLM server error (${error.status}): ${error.message}`, 'server_error');
+      }
+      return new LlmError(`LLM request failed (${error.status}): ${error.message}`, 'request_failed');
+    }
+    return new LlmError(error instanceof Error ? error.message : 'Unknown LLM error', 'request_failed');
+  }
+}
+
+type FakeResponder = string | ((request: LlmRequest) => string);
+
+const FAKE_RESPONSES: Record<LlmTask, FakeResponder> = {
+  scoring: JSON.stringify({ score: 0.75, reasoning: 'Fake provider score' }),
+  // One variant per stance, in the shape the reply generator asks for
+  reply: JSON.stringify({
+    variants: STANCE_ORDER.map((stance, index) => ({
+      stance,
+      content: `${REPLY_STANCES[stance].label}: great point, thanks for sharing!`,
+      confidence: 0.8 - index * 0.1
+    }))
+  }),
+  voice_analysis: JSON.stringify({
+    voicePersonality: 'Thoughtful and friendly',
+    communicationStyle: 'Clear and conversational',
+    interests: ['technology', 'startups', 'product']
+  }),
+  topic_analysis: JSON.stringify({
+    suggestions: [
+      { name: 'AI Tools', keywords: ['AI tools', 'LLM apps', 'AI agents'], hashtags: ['#AI', '#LLM', '#AIAgents'], confidence: 0.8, reason: 'Fake provider suggestion' },
+      { name: 'Startups', keywords: ['startup', 'founders', 'fundraising'], hashtags: ['#Startup', '#Founders', '#VC'], confidence: 0.7, reason: 'Fake provider suggestion' },
+      { name: 'Web Development', keywords: ['web development', 'frontend', 'typescript'], hashtags: ['#WebDev', '#TypeScript', '#Frontend'], confidence: 0.6, reason: 'Fake provider suggestion' },
+      { name: 'Product Management', keywords: ['product management', 'roadmap', 'user research'], hashtags: ['#ProductManagement', '#Product', '#UX'], confidence: 0.5, reason: 'Fake provider suggestion' }
+    ]
+  })
+};
+
+/**
+ * Deterministic provider for local development without an API key (LLM_PROVIDER=fake)
+ * Returns a fixed response per task (overridable) and records every request it receives
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  readonly requests: LlmRequest[] = [];
+  private responses: Record<LlmTask, FakeResponder>;
+
+  constructor(responses: Partial<Record<LlmTask, FakeResponder>> = {}) {
+    this.responses = { ...FAKE_RESPONSES, ...responses };
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmRequest & { model: string }): Promise<LlmResponse> {
+    this.requests.push(request);
+
+    const responder = this.responses[request.task];
+    const content = typeof responder === 'function' ? responder(request) : responder;
+    const prompt = request.messages.map(message => message.content).join('\n');
+
+    return {
+      content,
+      model: request.model,
+      // Roughly 4 characters per token, stable for the same input
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(content.length / 4)
+      }
+    };
+  }
+}
+
+/**
+ * Parse JSON from a model response, tolerating markdown code fences and surrounding text
+ */
+export function parseJsonContent<T>(content: string): T {
+  const unfenced = content
+    .replace(/```(?:json)?\s*/gi, '')
+    .replace(/```/g, '')
+    .trim();
+
+  try {
+    return JSON.parse(unfenced) as T;
+  } catch {
+    // Fall back to the outermost object or array in the text
+    const start = unfenced.search(/[[{]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(unfenced.slice(start, end + 1)) as T;
+      } catch {
+        // Reported below
+      }
+    }
+    throw new LlmError(`LLM returned invalid JSON: ${content.slice(0, 200)}`, 'invalid_json');
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export interface LlmClientOptions {
+  models?: Partial<Record<LlmTask, string>>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  // Where completions are recorded; null skips recording (e.g. a client built on the fake provider in a script)
+  ledger?: UsageLedger | null;
+}
+
+/**
+ * Runs completions for a task on the configured provider and model
+ * Applies a per-attempt timeout and retries transient failures with exponential backoff
+ */
+export class LlmClient {
+  private models: Record<LlmTask, string>;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private ledger: UsageLedger | null;
+
+  constructor(private provider: LlmProvider, options: LlmClientOptions = {}) {
+    this.models = { ...DEFAULT_MODELS, ...options.models };
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.ledger = options.ledger ?? null;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  getModel(task: LlmTask): string {
+    return this.models[task];
+  }
+
+  /**
+   * Run a completion and return its text
+   * Successful completions are recorded in the usage ledger with their real token counts
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    if (!this.isConfigured()) {
+      throw new LlmError(`LLM provider "${this.provider.name}" is not configured`, 'not_configured');
+    }
+
+    const model = this.getModel(request.task);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.attempt({ ...request, model });
+        await this.recordUsage(request, response);
+        if (!response.content.trim()) {
+          throw new LlmError(`Empty response from ${model}`, 'empty_response');
+        }
+        return response;
+      } catch (error) {
+        const llmError = error instanceof LlmError
+          ? error
+          : new LlmError(error instanceof Error ? error.message : 'Unknown LLM error', 'request_failed');
+
+        if (!llmError.retryable || attempt >= this.maxRetries) {
+          throw llmError;
+        }
+
+        const delay = this.retryDelayMs * 2 ** attempt;
+        console.warn(`LlmClient: ${request.task} attempt ${attempt + 1} failed (${llmError.code}), retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Run a completion in JSON mode and parse the result
+   */
+  async completeJson<T>(request: LlmRequest): Promise<LlmJsonResponse<T>> {
+    const response = await this.complete({ ...request, json: true });
+    return { ...response, data: parseJsonContent<T>(response.content) };
+  }
+
+  private async recordUsage(request: LlmRequest, response: LlmResponse): Promise<void> {
+    if (!this.ledger) return;
+
+    await this.ledger.record({
+      ...request.context,
+      operationType: `ai_${request.task}`,
+      model: response.model,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens
+    });
+  }
+
+  private async attempt(request: LlmRequest & { model: string }): Promise<LlmResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      return await this.provider.complete(request, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new LlmError(`LLM request timed out after ${this.timeoutMs}ms`, 'timeout');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Pick the provider from the environment
+ * LLM_PROVIDER=fake selects the deterministic provider; anything else uses the OpenAI-compatible API
+ */
+export function createLlmProvider(): LlmProvider {
+  if (process.env.LLM_PROVIDER === 'fake') {
+    return new FakeLlmProvider();
+  }
+
+  return new OpenAiCompatibleProvider({
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL
+  });
+}
+
+/**
+ * Per-task models and limits from the environment, e.g. LLM_MODEL_REPLY=llama3.1:8b
+ */
+function loadClientOptions(): LlmClientOptions {
+  const models: Partial<Record<LlmTask, string>> = {};
+  for (const task of Object.keys(DEFAULT_MODELS) as LlmTask[]) {
+    const model = process.env[`LLM_MODEL_${task.toUpperCase()}`];
+    if (model) models[task] = model;
+  }
+
+  return {
+    models,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000'),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2'),
+    ledger: usageLedger
+  };
+}
+
+// Export singleton instance
+export const llmClient = new LlmClient(createLlmProvider(), loadClientOptions());
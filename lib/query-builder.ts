@@ -0,0 +1,240 @@
+// Search query building for topic targets
+// Shared by the SearchBroker and the target dialogs so the preview matches what is sent to X
+
+// Recent search rejects queries longer than this
+export const MAX_QUERY_LENGTH = 512;
+
+// Filter operators a target can require or exclude
+export const QUERY_FILTERS = [
+  { operator: 'has:links', label: 'Links' },
+  { operator: 'has:media', label: 'Media' },
+  { operator: 'has:images', label: 'Images' },
+  { operator: 'has:videos', label: 'Videos' },
+  { operator: 'has:mentions', label: 'Mentions' },
+  { operator: 'is:verified', label: 'Verified authors' },
+  { operator: 'is:quote', label: 'Quote posts' }
+];
+
+// Operators X only accepts alongside at least one standalone term
+const CONJUNCTION_REQUIRED_PREFIXES = ['is:', 'has:', 'lang:', 'sample:'];
+
+export interface TopicQuery {
+  keywords?: string[] | null;
+  hashtags?: string[] | null;
+  exact_phrases?: string[] | null;
+  // Each inner list is OR'd, the groups themselves are AND'd: [["ai", "ml"], ["startup"]]
+  keyword_groups?: string[][] | null;
+  from_accounts?: string[] | null;
+  to_accounts?: string[] | null;
+  include_filters?: string[] | null;
+  exclude_filters?: string[] | null;
+  exclude_keywords?: string[] | null;
+  conversation_id?: string | null;
+  place_country?: string | null;
+  languages?: string[] | null;
+  // When set, sent to X as-is instead of the structured fields above
+  raw_query?: string | null;
+}
+
+/**
+ * Quote a term when it is a phrase so X matches it exactly
+ */
+function quoteTerm(term: string): string {
+  return term.includes(' ') ? `"${term}"` : term;
+}
+
+/**
+ * Join alternatives with OR, grouping them when there is more than one
+ */
+function anyOf(terms: string[]): string | null {
+  if (terms.length === 0) return null;
+  return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+}
+
+function cleanList(values?: string[] | null): string[] {
+  return (values || []).map(value => value.trim()).filter(Boolean);
+}
+
+function cleanHandles(values?: string[] | null): string[] {
+  return cleanList(values).map(handle => handle.replace(/^@/, ''));
+}
+
+/**
+ * Build the X search query for a topic target
+ */
+export function buildTopicQuery(target: TopicQuery): string {
+  if (target.raw_query?.trim()) {
+    return target.raw_query.trim().replace(/\s+/g, ' ');
+  }
+
+  const parts: (string | null)[] = [];
+
+  // Main search terms: keywords, exact phrases and hashtags, any of which may match
+  parts.push(anyOf([
+    ...cleanList(target.keywords).map(quoteTerm),
+    ...cleanList(target.exact_phrases).map(phrase => `"${phrase.replace(/"/g, '')}"`),
+    ...cleanList(target.hashtags).map(h => (h.startsWith('#') ? h : `#${h}`))
+  ]));
+
+  // Every keyword group must match
+  for (const group of target.keyword_groups || []) {
+    parts.push(anyOf(cleanList(group).map(quoteTerm)));
+  }
+
+  parts.push(anyOf(cleanHandles(target.from_accounts).map(handle => `from:${handle}`)));
+  parts.push(anyOf(cleanHandles(target.to_accounts).map(handle => `to:${handle}`)));
+
+  if (target.conversation_id?.trim()) {
+    parts.push(`conversation_id:${target.conversation_id.trim()}`);
+  }
+  if (target.place_country?.trim()) {
+    parts.push(`place_country:${target.place_country.trim().toUpperCase()}`);
+  }
+
+  parts.push(...cleanList(target.include_filters));
+  parts.push(...cleanList(target.exclude_filters).map(filter => `-${filter}`));
+  parts.push(...cleanList(target.exclude_keywords).map(k => `-${quoteTerm(k)}`));
+
+  // Standard filters: original content only
+  parts.push('-is:retweet');
+  parts.push('-is:reply');
+
+  // Restrict to the target's languages; an empty list means any language
+  parts.push(anyOf(cleanList(target.languages).map(lang => `lang:${lang}`)));
+
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Split a query into top-level terms, keeping quoted phrases and parenthesized groups whole
+ * Returns null when quotes or parentheses are unbalanced
+ */
+export function splitQueryTerms(query: string): string[] | null {
+  const terms: string[] = [];
+  let current = '';
+  let depth = 0;
+  let inQuotes = false;
+
+  for (const char of query) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '(') {
+      depth++;
+    } else if (!inQuotes && char === ')') {
+      depth--;
+      if (depth < 0) return null;
+    }
+
+    if (/\s/.test(char) && depth === 0 && !inQuotes) {
+      if (current) terms.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (inQuotes || depth !== 0) return null;
+  if (current) terms.push(current);
+  return terms;
+}
+
+/**
+ * Whether a query has a term X can match on its own (not negated, not a conjunction-only operator)
+ */
+function hasStandaloneTerm(query: string): boolean {
+  const terms = splitQueryTerms(query) || [];
+
+  return terms.some(term => {
+    if (term === 'OR' || term.startsWith('-')) return false;
+    if (term.startsWith('(')) return hasStandaloneTerm(term.slice(1, -1));
+    return !CONJUNCTION_REQUIRED_PREFIXES.some(prefix => term.toLowerCase().startsWith(prefix));
+  });
+}
+
+/**
+ * Check a built or raw query against X's rules
+ * Returns an error message, or null when the query can be sent
+ */
+export function validateQuery(query: string): string | null {
+  if (!query.trim()) {
+    return 'Query cannot be empty';
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return `Query is ${query.length} characters; X allows at most ${MAX_QUERY_LENGTH}`;
+  }
+  if (!splitQueryTerms(query)) {
+    return 'Query has unbalanced quotes or parentheses';
+  }
+  if (!hasStandaloneTerm(query)) {
+    return 'Query needs at least one keyword, hashtag, phrase or account to search for';
+  }
+  return null;
+}
+
+/**
+ * Validate a topic target's configuration by building its query
+ */
+export function validateTopicQuery(target: TopicQuery): string | null {
+  const unknownFilter = [...cleanList(target.include_filters), ...cleanList(target.exclude_filters)]
+    .find(filter => !QUERY_FILTERS.some(f => f.operator === filter));
+  if (unknownFilter) {
+    return `Unsupported filter "${unknownFilter}"`;
+  }
+
+  if (target.place_country?.trim() && !/^[A-Za-z]{2}$/.test(target.place_country.trim())) {
+    return 'Country must be a two-letter ISO code';
+  }
+
+  if (target.conversation_id?.trim() && !/^\d+$/.test(target.conversation_id.trim())) {
+    return 'Conversation ID must be a numeric post ID';
+  }
+
+  return validateQuery(buildTopicQuery(target));
+}
+
+// Advanced query fields in request bodies and the topic_targets columns they map to
+const ARRAY_QUERY_FIELDS = {
+  exactPhrases: 'exact_phrases',
+  fromAccounts: 'from_accounts',
+  toAccounts: 'to_accounts',
+  includeFilters: 'include_filters',
+  excludeFilters: 'exclude_filters'
+} as const;
+
+const TEXT_QUERY_FIELDS = {
+  conversationId: 'conversation_id',
+  placeCountry: 'place_country',
+  rawQuery: 'raw_query'
+} as const;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Pick the advanced query fields present in a request body as topic_targets columns
+ * Returns null when a field has the wrong shape; empty strings clear text fields
+ */
+export function parseAdvancedQueryFields(body: Record<string, unknown>): Partial<TopicQuery> | null {
+  const fields: Partial<TopicQuery> = {};
+
+  for (const [key, column] of Object.entries(ARRAY_QUERY_FIELDS)) {
+    if (body[key] === undefined) continue;
+    if (!isStringArray(body[key])) return null;
+    fields[column] = body[key] as string[];
+  }
+
+  for (const [key, column] of Object.entries(TEXT_QUERY_FIELDS)) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== 'string') return null;
+    fields[column] = (body[key] as string | null)?.trim() || null;
+  }
+
+  if (body.keywordGroups !== undefined) {
+    const groups = body.keywordGroups;
+    if (!Array.isArray(groups) || !groups.every(isStringArray)) return null;
+    fields.keyword_groups = groups.filter(group => group.length > 0);
+  }
+
+  return fields;
+}
@@ -0,0 +1,285 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { TwitterApiService } from './twitter-api';
+
+// Score for an author the user has no history with; every signal below adds to it
+export const BASE_RELATIONSHIP_SCORE = 0.3;
+
+const USER_FOLLOWS_AUTHOR_WEIGHT = 0.15;
+const AUTHOR_FOLLOWS_USER_WEIGHT = 0.2;
+const REPLIED_BACK_WEIGHT = 0.15;
+// Each past reply adds a little, capped so one chatty thread doesn't dominate
+const REPLY_SENT_WEIGHT = 0.05;
+const MAX_REPLIES_SENT_BONUS = 0.2;
+
+// Follow graph pages are 1000 users; more than this isn't worth the rate limit
+const MAX_GRAPH_USERS = 2000;
+// Replies older than the recent search window can't be checked for a response
+const REPLY_BACK_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface AuthorRelationship {
+  author_id: string;
+  user_follows_author: boolean;
+  author_follows_user: boolean;
+  replies_sent: number;
+  replies_received: number;
+}
+
+interface RelationshipSyncResult {
+  success: boolean;
+  following: number;
+  followers: number;
+  repliesBack: number;
+  error?: string;
+}
+
+interface PostedReply {
+  id: string;
+  twitter_reply_id: string | null;
+  curated_posts: {
+    twitter_post_id: string | null;
+    post_author_id: string | null;
+    post_author_handle: string | null;
+  } | null;
+}
+
+export class RelationshipScorer {
+  /**
+   * Compute a 0-1 relationship score from what we know about the user and an author
+   */
+  static score(relationship?: AuthorRelationship): number {
+    if (!relationship) {
+      return BASE_RELATIONSHIP_SCORE;
+    }
+
+    let score = BASE_RELATIONSHIP_SCORE;
+    if (relationship.user_follows_author) score += USER_FOLLOWS_AUTHOR_WEIGHT;
+    if (relationship.author_follows_user) score += AUTHOR_FOLLOWS_USER_WEIGHT;
+    if (relationship.replies_received > 0) score += REPLIED_BACK_WEIGHT;
+    score += Math.min(relationship.replies_sent * REPLY_SENT_WEIGHT, MAX_REPLIES_SENT_BONUS);
+
+    return Math.min(Math.round(score * 100) / 100, 1);
+  }
+
+  /**
+   * Relationship scores for a set of authors, keyed by author id
+   * Authors without a stored relationship get the base score
+   */
+  async getScores(userId: string, authorIds: string[]): Promise<Map<string, number>> {
+    const uniqueIds = Array.from(new Set(authorIds.filter(Boolean)));
+    const scores = new Map(uniqueIds.map(id => [id, BASE_RELATIONSHIP_SCORE]));
+    if (uniqueIds.length === 0) {
+      return scores;
+    }
+
+    try {
+      const supabase = createServiceClient();
+
+      const { data, error } = await supabase
+        .from('author_relationships')
+        .select('author_id, user_follows_author, author_follows_user, replies_sent, replies_received')
+        .eq('user_id', userId)
+        .in('author_id', uniqueIds);
+
+      if (error) {
+        console.error(`RelationshipScorer: Error loading relationships for ${userId}:`, error);
+        return scores;
+      }
+
+      for (const relationship of (data || []) as AuthorRelationship[]) {
+        scores.set(relationship.author_id, RelationshipScorer.score(relationship));
+      }
+    } catch (error) {
+      console.error(`RelationshipScorer: Error in getScores for ${userId}:`, error);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Count a posted reply towards the user's relationship with the author
+   */
+  async recordReplySent(userId: string, authorId: string, authorHandle?: string | null): Promise<void> {
+    await this.incrementCounter(userId, authorId, authorHandle, 'replies_sent', 'last_replied_at');
+  }
+
+  /**
+   * Sync follow edges and replies-back for a user with their own X credentials
+   */
+  async syncUser(userId: string, twitterUserId: string): Promise<RelationshipSyncResult> {
+    const result: RelationshipSyncResult = { success: false, following: 0, followers: 0, repliesBack: 0 };
+
+    try {
+      const twitterApi = await TwitterApiService.createForUser(userId);
+
+      const following = await twitterApi.getFollowing(twitterUserId, MAX_GRAPH_USERS);
+      const followers = await twitterApi.getFollowers(twitterUserId, MAX_GRAPH_USERS);
+      result.following = following.length;
+      result.followers = followers.length;
+
+      await this.storeFollowEdges(userId, 'user_follows_author', following);
+      await this.storeFollowEdges(userId, 'author_follows_user', followers);
+
+      result.repliesBack = await this.detectRepliesBack(userId, twitterApi);
+
+      const supabase = createServiceClient();
+      await supabase
+        .from('users_profiles')
+        .update({ relationships_synced_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      result.success = true;
+      console.log(`RelationshipScorer: Synced ${userId} - ${result.following} following, ${result.followers} followers, ${result.repliesBack} replies back`);
+    } catch (error) {
+      console.error(`RelationshipScorer: Error syncing relationships for ${userId}:`, error);
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace one follow flag for all of a user's relationships with the current graph
+   */
+  private async storeFollowEdges(
+    userId: string,
+    column: 'user_follows_author' | 'author_follows_user',
+    users: Array<{ id: string; username: string }>
+  ): Promise<void> {
+    const supabase = createServiceClient();
+
+    // Clear first so unfollows are picked up; the upsert below sets the current edges again
+    const { error: resetError } = await supabase
+      .from('author_relationships')
+      .update({ [column]: false, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq(column, true);
+
+    if (resetError) {
+      throw new Error(`Failed to reset ${column}: ${resetError.message}`);
+    }
+
+    if (users.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('author_relationships')
+      .upsert(
+        users.map(user => ({
+          user_id: userId,
+          author_id: user.id,
+          author_handle: user.username,
+          [column]: true,
+          updated_at: new Date().toISOString()
+        })),
+        { onConflict: 'user_id,author_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to store ${column}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Look for authors who replied to the user's recently posted replies
+   * Curated posts are original posts, so their id is also the conversation id
+   */
+  private async detectRepliesBack(userId: string, twitterApi: TwitterApiService): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { data: postedReplies, error } = await supabase
+      .from('reply_suggestions')
+      .select(`
+        id,
+        twitter_reply_id,
+        curated_posts!reply_suggestions_curated_post_id_fkey (
+          twitter_post_id,
+          post_author_id,
+          post_author_handle
+        )
+      `)
+      .eq('user_id', userId)
+      .eq('status', 'posted')
+      .is('author_replied_at', null)
+      .not('twitter_reply_id', 'is', null)
+      .gte('posted_at', new Date(Date.now() - REPLY_BACK_WINDOW_MS).toISOString())
+      .limit(20);
+
+    if (error) {
+      throw new Error(`Failed to load posted replies: ${error.message}`);
+    }
+
+    let repliesBack = 0;
+    for (const reply of (postedReplies || []) as unknown as PostedReply[]) {
+      const post = reply.curated_posts;
+      // Handles that are still numeric ids can't be used in a from: query
+      if (!post?.twitter_post_id || !post.post_author_id || !post.post_author_handle || /^\d+$/.test(post.post_author_handle)) {
+        continue;
+      }
+
+      const authorReplies = await twitterApi.searchTweets(
+        `conversation_id:${post.twitter_post_id} from:${post.post_author_handle} is:reply`,
+        { maxResults: 10 }
+      );
+      const repliedBack = authorReplies.some(tweet =>
+        tweet.referenced_tweets?.some(ref => ref.type === 'replied_to' && ref.id === reply.twitter_reply_id)
+      );
+
+      if (!repliedBack) {
+        continue;
+      }
+
+      repliesBack++;
+      await supabase
+        .from('reply_suggestions')
+        .update({ author_replied_at: new Date().toISOString() })
+        .eq('id', reply.id);
+      await this.incrementCounter(userId, post.post_author_id, post.post_author_handle, 'replies_received', 'last_replied_back_at');
+    }
+
+    return repliesBack;
+  }
+
+  /**
+   * Increment a reply counter on a relationship, creating the row if needed
+   */
+  private async incrementCounter(
+    userId: string,
+    authorId: string,
+    authorHandle: string | null | undefined,
+    counter: 'replies_sent' | 'replies_received',
+    timestampColumn: 'last_replied_at' | 'last_replied_back_at'
+  ): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+      const now = new Date().toISOString();
+
+      const { data: existing } = await supabase
+        .from('author_relationships')
+        .select('id, replies_sent, replies_received')
+        .eq('user_id', userId)
+        .eq('author_id', authorId)
+        .maybeSingle();
+
+      const { error } = await supabase
+        .from('author_relationships')
+        .upsert({
+          user_id: userId,
+          author_id: authorId,
+          ...(authorHandle && !/^\d+$/.test(authorHandle) ? { author_handle: authorHandle } : {}),
+          [counter]: (existing?.[counter] || 0) + 1,
+          [timestampColumn]: now,
+          updated_at: now
+        }, { onConflict: 'user_id,author_id' });
+
+      if (error) {
+        console.error(`RelationshipScorer: Error updating ${counter} for ${userId}/${authorId}:`, error);
+      }
+    } catch (error) {
+      console.error(`RelationshipScorer: Error in incrementCounter for ${userId}/${authorId}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const relationshipScorer = new RelationshipScorer();
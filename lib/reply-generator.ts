@@ -1,7 +1,20 @@
-import { OpenAI } from 'openai';
 import { createServiceClient } from '@/lib/supabase/server';
-
-interface Tweet {
+import { llmClient, type LlmClient, type LlmUsage } from './llm-provider';
+import { estimateLlmCost, type UsageContext } from './usage-ledger';
+import { buildVoiceInstructions, findBannedPhrase, parseVoiceProfile, type VoiceProfile } from './voice-profile';
+import {
+  DEFAULT_REPLY_STYLE,
+  isReplyStance,
+  REPLY_STANCES,
+  REPLY_TONES,
+  STANCE_ORDER,
+  type ReplyStance,
+  type ReplyStyle,
+  type ReplyVariant
+} from './reply-variants';
+import { formatThreadContext, type ThreadContext } from './thread-context';
+
+export interface Tweet {
   id: string;
   text: string;
   created_at: string;
@@ -13,17 +26,19 @@ interface Tweet {
     quote_count: number;
   };
   score?: number;
-}
-
-interface VoiceProfile {
-  samples: string[]
+  // Quoted and replied-to tweets and top replies, when the post is part of a conversation
+  context?: ThreadContext | null;
 }
 
 interface GeneratedReply {
+  stance: ReplyStance;
   content: string;
   confidence: number;
-  curatedPostId: string;
-  tweetId: string;
+}
+
+interface GeneratedVariants {
+  replies: GeneratedReply[];
+  usage: LlmUsage;
 }
 
 interface ReplySuggestion {
@@ -36,14 +51,11 @@ interface ReplySuggestion {
 }
 
 export class ReplyGenerator {
-  private openai: OpenAI;
-  private costPerInputToken = 0.00015 / 1000; // GPT-4o-mini pricing per input token
-  private costPerOutputToken = 0.0006 / 1000;  // GPT-4o-mini pricing per output token
+  private llm: LlmClient;
+  private lastOperationTokens: LlmUsage = { inputTokens: 0, outputTokens: 0 };
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  constructor(llm: LlmClient = llmClient) {
+    this.llm = llm;
   }
 
   /**
@@ -52,13 +64,16 @@ export class ReplyGenerator {
   async generateRepliesForPosts(
     userId: string,
     tweets: Tweet[],
-    curatedPostIds: string[]
+    curatedPostIds: string[],
+    monitoringTargetId: string | null = null
   ): Promise<ReplySuggestion[]> {
+    const usage: UsageContext = { userId, monitoringTargetId };
+    const tokens: LlmUsage = { inputTokens: 0, outputTokens: 0 };
 
     try {
       // Get user's voice profile for personalized replies
       const voiceProfile = await this.getUserVoiceProfile(userId);
-      console.log(`ReplyGenerator: Found voice profile for user ${userId}:`, voiceProfile ? 'Yes' : 'No');
+      console.log(`ReplyGenerator: Voice profile for user ${userId}: ${voiceProfile.personality ? 'analyzed' : 'samples only'}, ${voiceProfile.sampleTweets.length} samples`);
 
       // Generate replies in parallel for better performance
       const replyPromises = tweets.map(async (tweet, index) => {
@@ -66,15 +81,16 @@ export class ReplyGenerator {
         if (!curatedPostId) return null;
 
         try {
-          const reply = await this.generateSingleReply(tweet, voiceProfile);
-          if (reply) {
-            // Store the generated reply
+          const generated = await this.generateReplyVariants(tweet, voiceProfile, usage);
+          if (generated) {
+            tokens.inputTokens += generated.usage.inputTokens;
+            tokens.outputTokens += generated.usage.outputTokens;
+
+            // Store the suggestion with all of its variants
             const storedReply = await this.storeReplySuggestion({
               userId,
               curatedPostId,
-              tweetId: tweet.id,
-              replyContent: reply.content,
-              confidence: reply.confidence
+              replies: generated.replies
             });
             return storedReply;
           }
@@ -85,6 +101,7 @@ export class ReplyGenerator {
       });
 
       const replies = await Promise.all(replyPromises);
+      this.lastOperationTokens = tokens;
       const validReplies = replies.filter((reply): reply is ReplySuggestion => reply !== null);
 
       console.log('Replies:', replies);
@@ -98,41 +115,130 @@ export class ReplyGenerator {
   }
 
   /**
-   * Generate a single AI-powered reply for a tweet
+   * Regenerate a suggestion still in review, optionally following a free-text instruction
+   * The replaced reply is archived as a version and its variants are kept under that version;
+   * returns null when nothing usable came back and throws when the suggestion can't be updated
+   */
+  async regenerateVariants(
+    userId: string,
+    replySuggestionId: string,
+    tweet: Tweet,
+    style: ReplyStyle,
+    instruction: string | null = null
+  ): Promise<{ suggestedReply: string; variants: ReplyVariant[]; version: number } | null> {
+    const supabase = createServiceClient();
+    const { data: current, error: currentError } = await supabase
+      .from('reply_suggestions')
+      .select('version')
+      .eq('id', replySuggestionId)
+      .eq('user_id', userId)
+      .single();
+
+    if (currentError || !current) {
+      throw new Error(`Failed to load reply suggestion: ${currentError?.message || 'not found'}`);
+    }
+
+    const usage: UsageContext = { userId };
+    const voiceProfile = await this.getUserVoiceProfile(userId);
+    const generated = await this.generateReplyVariants(tweet, voiceProfile, usage, style, instruction);
+    if (!generated) return null;
+
+    // Archive the replaced reply, store the variants and bump the version in one transaction;
+    // fails if another regeneration got there first
+    const version = current.version + 1;
+    const suggestedReply = this.pickSuggestedReply(generated.replies).content;
+    const ordered = [...generated.replies].sort((a, b) => STANCE_ORDER.indexOf(a.stance) - STANCE_ORDER.indexOf(b.stance));
+
+    const { data, error } = await supabase.rpc('regenerate_reply_suggestion', {
+      p_reply_suggestion_id: replySuggestionId,
+      p_user_id: userId,
+      p_expected_version: current.version,
+      p_suggested_reply: suggestedReply,
+      p_instruction: instruction,
+      p_variants: ordered.map(reply => ({
+        stance: reply.stance,
+        tone: style.tone,
+        length: style.length,
+        content: reply.content,
+        confidence: reply.confidence
+      }))
+    });
+
+    if (error) {
+      throw new Error(`Failed to regenerate reply suggestion: ${error.message}`);
+    }
+
+    const variants = ((data || []) as ReplyVariant[]).map(variant => ({
+      id: variant.id,
+      stance: variant.stance,
+      tone: variant.tone,
+      length: variant.length,
+      content: variant.content,
+      confidence: variant.confidence,
+      version: variant.version,
+      created_at: variant.created_at
+    }));
+
+    console.log(`ReplyGenerator: Regenerated suggestion ${replySuggestionId} as version ${version} with ${variants.length} variants (${style.tone}, ${style.length || 'preferred'} length${instruction ? ', with instruction' : ''})`);
+    return { suggestedReply, variants, version };
+  }
+
+  /**
+   * Generate one reply per stance for a tweet in a single completion
+   * Variants over the length limit or using a banned phrase are dropped
    */
-  private async generateSingleReply(
+  private async generateReplyVariants(
     tweet: Tweet,
-    voiceProfile: VoiceProfile | null
-  ): Promise<GeneratedReply | null> {
+    voiceProfile: VoiceProfile,
+    usage: UsageContext,
+    style: ReplyStyle = DEFAULT_REPLY_STYLE,
+    instruction: string | null = null
+  ): Promise<GeneratedVariants | null> {
     try {
+      // A length toggle overrides the profile's preferred length for this generation
+      const profile = style.length ? { ...voiceProfile, preferredLength: style.length } : voiceProfile;
+      const toneInstruction = REPLY_TONES[style.tone].instruction;
+      const threadContext = formatThreadContext(tweet.context);
+
       const prompt = `
-        You are a social media expert helping to craft an engaging reply to a tweet.
+        You are a social media expert helping to craft engaging replies to a tweet, written in the user's own voice.
 
-        'Voice samples: '${ voiceProfile?.samples}
+        The user's voice:
+        ${buildVoiceInstructions(profile)}
 
         Original Tweet: "${tweet.text}"
+        ${threadContext ? `Conversation context (reply to the original tweet, not to these):\n${threadContext}` : ''}
         Tweet Metrics: ${tweet.public_metrics.like_count} likes, ${tweet.public_metrics.retweet_count} retweets, ${tweet.public_metrics.reply_count} replies
         Tweet Score: ${tweet.score ? (tweet.score * 100).toFixed(0) : 'N/A'}/100
 
         Guidelines:
         - Be authentic and conversational
         - Add value through insights, questions, or support
-        - Keep it concise (ideally under 200 characters, max 280)
+        - Keep it concise
         - Avoid being promotional or spammy
         - Match the tone and context of the original tweet
         - Be relevant and on-topic
         - If the tweet asks a question, answer it thoughtfully
         - If it shares information, add a meaningful perspective
         - If it's an opinion, engage constructively
+        - If conversation context is given, fit into the conversation and don't repeat points other replies already made
+        - Follow the user's style rules above; they take priority over these guidelines
+        ${toneInstruction ? `- Tone for these replies: ${toneInstruction}` : ''}
+        ${instruction ? `- The user asked for these replies to be changed: "${instruction}". Follow it unless it conflicts with the style rules` : ''}
+
+        Write ${STANCE_ORDER.length} different replies, one for each approach:
+        ${STANCE_ORDER.map(stance => `- ${stance}: ${REPLY_STANCES[stance].instruction}`).join('\n        ')}
 
-        Generate a thoughtful reply and provide a confidence score (0-1) for how well this reply matches the context and would likely get engagement.
+        For each reply provide a confidence score (0-1) for how well it matches the context and the user's voice and would likely get engagement.
 
         Return ONLY a JSON object:
-        {"content": "Your reply here", "confidence": 0.85}
+        {"variants": [{"stance": "${STANCE_ORDER[0]}", "content": "Your reply here", "confidence": 0.85}]}
       `;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const { data: result, usage: tokenUsage } = await this.llm.completeJson<{
+        variants?: { stance?: string; content?: string; confidence?: number }[];
+      }>({
+        task: 'reply',
         messages: [
           {
             role: 'system',
@@ -143,74 +249,97 @@ export class ReplyGenerator {
             content: prompt
           }
         ],
-        temperature: 0.7,
-        max_tokens: 150,
-        response_format: { type: "json_object" }
+        temperature: 0.8,
+        maxTokens: 100 * STANCE_ORDER.length + 50,
+        context: usage
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
+      // Validate each variant against X's limit and the user's banned phrases
+      const replies: GeneratedReply[] = [];
+      for (const variant of Array.isArray(result.variants) ? result.variants : []) {
+        const content = typeof variant.content === 'string' ? variant.content.trim() : '';
+        if (!isReplyStance(variant.stance) || !content || replies.some(reply => reply.stance === variant.stance)) {
+          continue;
+        }
 
-      const result = JSON.parse(content);
+        const bannedPhrase = findBannedPhrase(content, profile);
+        if (bannedPhrase) {
+          console.warn(`Reply variant ${variant.stance} for tweet ${tweet.id} used banned phrase "${bannedPhrase}"`);
+          continue;
+        }
+        if (content.length > 280) {
+          console.warn(`Reply variant ${variant.stance} too long for tweet ${tweet.id}: ${content.length} characters`);
+          continue;
+        }
 
-      // Validate the reply
-      if (result.content && result.content.length <= 280) {
-        return {
-          content: result.content,
-          confidence: Math.max(0, Math.min(1, result.confidence || 0.7)),
-          curatedPostId: '', // Will be set by caller
-          tweetId: tweet.id
-        };
+        replies.push({
+          stance: variant.stance,
+          content,
+          confidence: Math.max(0, Math.min(1, variant.confidence || 0.7))
+        });
       }
 
-      console.warn(`Reply too long or invalid for tweet ${tweet.id}:`, result);
-      return null;
+      if (replies.length === 0) {
+        console.warn(`No usable reply variants for tweet ${tweet.id}:`, result);
+        return null;
+      }
+
+      return { replies, usage: tokenUsage };
     } catch (error) {
-      console.error('Error generating single reply:', error);
+      console.error('Error generating reply variants:', error);
       return null;
     }
   }
 
   /**
-   * Get user's voice profile for personalized replies
+   * The variant shown first: the one the model was most confident in
    */
-  private async getUserVoiceProfile(userId: string): Promise<VoiceProfile | null> {
-    try {
-      const supabase = createServiceClient();
+  private pickSuggestedReply(replies: GeneratedReply[]): GeneratedReply {
+    return replies.reduce((best, reply) => reply.confidence > best.confidence ? reply : best);
+  }
 
-      // Try to get the voice profile from the voice_profiles table
-      const { data: voiceProfile, error: voiceError } = await supabase
+  /**
+   * Get user's voice profile for personalized replies
+   * Merges the saved voice analysis, what was learned from feedback and the user's training samples;
+   * any of them may be missing
+   */
+  private async getUserVoiceProfile(userId: string): Promise<VoiceProfile> {
+    const supabase = createServiceClient();
+
+    const [{ data: voiceProfile, error: voiceError }, { data: profile, error: profileError }] = await Promise.all([
+      supabase
+        .from('voice_profiles')
+        .select('analysis, learned_rules, learned_examples')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase
         .from('users_profiles')
         .select('voice_training_samples')
         .eq('id', userId)
-        .single();
-
-      if (voiceError) {
-        return {
-          samples: []
-        } as VoiceProfile;
-      }
+        .single()
+    ]);
 
-      return {
-        samples: voiceProfile?.voice_training_samples || []
-      } as VoiceProfile;
-    } catch (error) {
-      console.error(`Error fetching voice profile for ${userId}:`, error);
-      return null;
+    if (voiceError) {
+      console.error(`Error fetching voice analysis for ${userId}:`, voiceError);
+    }
+    if (profileError) {
+      console.error(`Error fetching voice samples for ${userId}:`, profileError);
     }
+
+    return parseVoiceProfile(voiceProfile?.analysis, profile?.voice_training_samples || [], {
+      rules: voiceProfile?.learned_rules,
+      examples: voiceProfile?.learned_examples
+    });
   }
 
   /**
    * Store generated reply suggestion in database
+   * suggested_reply holds the best variant; every variant is stored for the card to cycle through
    */
   private async storeReplySuggestion(replyData: {
     userId: string;
     curatedPostId: string;
-    tweetId: string;
-    replyContent: string;
-    confidence: number;
+    replies: GeneratedReply[];
   }): Promise<ReplySuggestion | null> {
     try {
       const supabase = createServiceClient();
@@ -220,7 +349,7 @@ export class ReplyGenerator {
         .insert({
           user_id: replyData.userId,
           curated_post_id: replyData.curatedPostId,
-          suggested_reply: replyData.replyContent,
+          suggested_reply: this.pickSuggestedReply(replyData.replies).content,
           status: 'pending', // Will be updated when user approves/edits/sends
           created_at: new Date().toISOString()
         })
@@ -232,6 +361,13 @@ export class ReplyGenerator {
         return null;
       }
 
+      // The suggestion is still usable without its alternatives
+      try {
+        await this.storeReplyVariants(replyData.userId, data.id, replyData.replies, DEFAULT_REPLY_STYLE);
+      } catch (variantError) {
+        console.error('Error storing reply variants:', variantError);
+      }
+
       return data;
     } catch (error) {
       console.error('Error in storeReplySuggestion:', error);
@@ -239,33 +375,61 @@ export class ReplyGenerator {
     }
   }
 
+  /**
+   * Store the variants of a suggestion in stance order
+   */
+  private async storeReplyVariants(
+    userId: string,
+    replySuggestionId: string,
+    replies: GeneratedReply[],
+    style: ReplyStyle
+  ): Promise<ReplyVariant[]> {
+    const supabase = createServiceClient();
+    const ordered = [...replies].sort((a, b) => STANCE_ORDER.indexOf(a.stance) - STANCE_ORDER.indexOf(b.stance));
+
+    const { data, error } = await supabase
+      .from('reply_variants')
+      .insert(ordered.map(reply => ({
+        reply_suggestion_id: replySuggestionId,
+        user_id: userId,
+        stance: reply.stance,
+        tone: style.tone,
+        length: style.length,
+        content: reply.content,
+        confidence: reply.confidence
+      })))
+      .select('id, stance, tone, length, content, confidence, version, created_at');
+
+    if (error) {
+      throw new Error(`Failed to store reply variants: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * Estimate the cost of generating replies
-   * Based on GPT-4o-mini pricing
+   * Priced for the model configured for the reply task
    */
   estimateCost(numberOfReplies: number): number {
     // Rough estimation:
-    // - Average prompt: ~500 tokens
-    // - Average response: ~50 tokens
-    const avgInputTokensPerReply = 500;
-    const avgOutputTokensPerReply = 50;
-
-    const totalInputTokens = numberOfReplies * avgInputTokensPerReply;
-    const totalOutputTokens = numberOfReplies * avgOutputTokensPerReply;
-
-    const inputCost = totalInputTokens * this.costPerInputToken;
-    const outputCost = totalOutputTokens * this.costPerOutputToken;
-
-    return inputCost + outputCost;
+    // - Average prompt: ~600 tokens
+    // - Average response: ~50 tokens per variant
+    const avgInputTokensPerReply = 600;
+    const avgOutputTokensPerReply = 50 * STANCE_ORDER.length;
+
+    return estimateLlmCost(
+      this.llm.getModel('reply'),
+      numberOfReplies * avgInputTokensPerReply,
+      numberOfReplies * avgOutputTokensPerReply
+    );
   }
 
   /**
-   * Get actual token usage from the last operation
-   * This would need to be enhanced to track actual usage
+   * Get actual token usage from the last generateRepliesForPosts call
    */
   getLastOperationTokens(): { input: number; output: number } {
-    // TODO: Implement actual token tracking
-    return { input: 0, output: 0 };
+    return { input: this.lastOperationTokens.inputTokens, output: this.lastOperationTokens.outputTokens };
   }
 }
 
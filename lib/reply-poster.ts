@@ -0,0 +1,379 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceClient } from '@/lib/supabase/server';
+import { TwitterApiService, TwitterApiError, type TwitterApiErrorCode } from './twitter-api';
+import { relationshipScorer } from './relationship-scorer';
+
+export type PostReplyErrorCode =
+  | TwitterApiErrorCode
+  | 'not_found'
+  | 'already_posted'
+  | 'invalid_reply'
+  | 'invalid_schedule_time'
+  | 'post_in_progress';
+
+export interface PostReplyResult {
+  success: boolean;
+  twitterReplyId?: string;
+  error?: {
+    code: PostReplyErrorCode;
+    message: string;
+  };
+}
+
+interface ScheduledPostingStats {
+  due: number;
+  posted: number;
+  retried: number;
+  failed: number;
+  errors: string[];
+}
+
+interface DueReply {
+  id: string;
+  user_id: string;
+  suggested_reply: string;
+  user_edited_reply: string | null;
+  post_attempts: number | null;
+}
+
+const POST_ERROR_MESSAGES: Record<PostReplyErrorCode, string> = {
+  duplicate_content: 'X rejected this reply as a duplicate of one you already posted. Edit it and try again.',
+  parent_tweet_unavailable: 'The original post was deleted or is no longer visible to you.',
+  unauthorized: 'Your X connection has expired or was revoked. Please reconnect your account.',
+  forbidden: 'X did not allow this reply to be posted.',
+  rate_limited: 'X rate limit reached. Please try again in a few minutes.',
+  invalid_request: 'X rejected the reply. Check its content and try again.',
+  unknown: 'Something went wrong while posting to X. Please try again.',
+  not_found: 'This reply suggestion no longer exists.',
+  already_posted: 'This reply has already been posted.',
+  invalid_reply: 'Replies must be between 1 and 280 characters.',
+  invalid_schedule_time: 'Pick a time in the future to schedule this reply.',
+  post_in_progress: 'This reply is being posted right now.'
+};
+
+// Failures worth retrying later; everything else needs the user to act
+const TRANSIENT_ERROR_CODES: PostReplyErrorCode[] = ['rate_limited', 'unknown'];
+
+const MAX_POST_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000; // 5 minutes, doubled on every attempt
+
+// A claimed reply still 'posting' after this long belongs to a run that died mid-post
+const POSTING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Statuses a reply can be posted or scheduled from; 'posting' means another request has it
+export const POSTABLE_STATUSES = ['pending', 'approved', 'edited', 'scheduled', 'failed'];
+
+// Minimum gap between two scheduled replies when picking the next open slot
+const SCHEDULE_SPACING_MS = parseInt(process.env.SCHEDULE_SPACING_MINUTES || '45') * 60 * 1000;
+
+export class ReplyPoster {
+  /**
+   * Build a failed result with a user-facing message for the given code
+   */
+  static failure(code: PostReplyErrorCode): PostReplyResult {
+    return { success: false, error: { code, message: POST_ERROR_MESSAGES[code] } };
+  }
+
+  /**
+   * Post a reply suggestion to X and record the result on success
+   * The suggestion is claimed as 'posting' first so a concurrent post or scheduled run can't
+   * send it twice (pass claimed when the caller already did); it is only marked as posted
+   * once X has accepted the reply
+   */
+  async postReply(
+    supabase: SupabaseClient,
+    userId: string,
+    replyId: string,
+    replyText: string,
+    claimed = false
+  ): Promise<PostReplyResult> {
+    const text = replyText.trim();
+    if (text.length === 0 || text.length > 280) {
+      return ReplyPoster.failure('invalid_reply');
+    }
+
+    const { data: reply, error: replyError } = await supabase
+      .from('reply_suggestions')
+      .select(`
+        id,
+        status,
+        suggested_reply,
+        user_edited_reply,
+        curated_posts!reply_suggestions_curated_post_id_fkey (
+          twitter_post_id,
+          post_author_id,
+          post_author_handle
+        )
+      `)
+      .eq('id', replyId)
+      .eq('user_id', userId)
+      .single();
+
+    if (replyError || !reply) {
+      return ReplyPoster.failure('not_found');
+    }
+
+    if (reply.status === 'posted') {
+      return ReplyPoster.failure('already_posted');
+    }
+
+    const curatedPost = Array.isArray(reply.curated_posts) ? reply.curated_posts[0] : reply.curated_posts;
+    if (!curatedPost?.twitter_post_id) {
+      return ReplyPoster.failure('parent_tweet_unavailable');
+    }
+
+    if (!claimed && !(await this.claim(supabase, userId, replyId, reply.status))) {
+      return ReplyPoster.failure('post_in_progress');
+    }
+
+    let twitterReplyId: string;
+    try {
+      // Refreshes the access token when it has expired
+      const twitterService = await TwitterApiService.createForUser(userId);
+      const postedTweet = await twitterService.postTweet(text, {
+        inReplyToTweetId: curatedPost.twitter_post_id
+      });
+      twitterReplyId = postedTweet.id;
+    } catch (error) {
+      console.error(`ReplyPoster: Error posting reply ${replyId} to Twitter:`, error);
+      // The scheduled run records its own outcome; a direct post goes back to where it was
+      if (!claimed) {
+        await this.release(supabase, userId, replyId, reply.status);
+      }
+      return ReplyPoster.failure(error instanceof TwitterApiError ? error.code : 'unknown');
+    }
+
+    const updateData: Record<string, string | null> = {
+      status: 'posted',
+      posted_at: new Date().toISOString(),
+      twitter_reply_id: twitterReplyId,
+      post_error_code: null,
+      post_error_message: null,
+      updated_at: new Date().toISOString()
+    };
+
+    // Keep last-minute edits made on the card so the posted text is on record
+    if (text !== (reply.user_edited_reply || reply.suggested_reply)) {
+      updateData.user_edited_reply = text;
+    }
+
+    const { error: updateError } = await supabase
+      .from('reply_suggestions')
+      .update(updateData)
+      .eq('id', replyId)
+      .eq('user_id', userId);
+
+    if (updateError) {
+      // The reply is live on X at this point, so report success and log the mismatch
+      console.error(`ReplyPoster: Reply ${replyId} posted as ${twitterReplyId} but failed to update status:`, updateError);
+    }
+
+    // Repeat engagement with the same author raises their relationship score
+    if (curatedPost.post_author_id) {
+      await relationshipScorer.recordReplySent(userId, curatedPost.post_author_id, curatedPost.post_author_handle);
+    }
+
+    return { success: true, twitterReplyId };
+  }
+
+  /**
+   * Mark a reply as 'posting' if it is still in the status it was read with
+   * Returns false when it was claimed, posted or changed in the meantime
+   */
+  private async claim(supabase: SupabaseClient, userId: string, replyId: string, status: string): Promise<boolean> {
+    if (!POSTABLE_STATUSES.includes(status)) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('reply_suggestions')
+      .update({ status: 'posting', updated_at: new Date().toISOString() })
+      .eq('id', replyId)
+      .eq('user_id', userId)
+      .eq('status', status)
+      .select('id');
+
+    if (error) {
+      console.error(`ReplyPoster: Error claiming reply ${replyId}:`, error);
+      return false;
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  /**
+   * Return a claimed reply to the status it had before a failed post
+   */
+  private async release(supabase: SupabaseClient, userId: string, replyId: string, status: string): Promise<void> {
+    const { error } = await supabase
+      .from('reply_suggestions')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', replyId)
+      .eq('user_id', userId)
+      .eq('status', 'posting');
+
+    if (error) {
+      console.error(`ReplyPoster: Error releasing reply ${replyId}:`, error);
+    }
+  }
+
+  /**
+   * Find the next free posting slot for a user so scheduled replies are
+   * spread out instead of going out in a burst
+   */
+  async getNextOpenSlot(supabase: SupabaseClient, userId: string): Promise<Date> {
+    const earliest = new Date(Date.now() + 15 * 60 * 1000);
+
+    const { data: latest } = await supabase
+      .from('reply_suggestions')
+      .select('scheduled_for')
+      .eq('user_id', userId)
+      .eq('status', 'scheduled')
+      .order('scheduled_for', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!latest?.scheduled_for) {
+      return earliest;
+    }
+
+    const afterLatest = new Date(new Date(latest.scheduled_for).getTime() + SCHEDULE_SPACING_MS);
+    return afterLatest > earliest ? afterLatest : earliest;
+  }
+
+  /**
+   * Post all scheduled replies that are due
+   * Transient failures are retried with exponential backoff; permanent
+   * failures move the suggestion to the `failed` state with the error attached
+   */
+  async processDueReplies(limit: number = 25): Promise<ScheduledPostingStats> {
+    const stats: ScheduledPostingStats = { due: 0, posted: 0, retried: 0, failed: 0, errors: [] };
+    const supabase = createServiceClient();
+
+    await this.requeueStalePosts(supabase);
+
+    const { data: dueReplies, error } = await supabase
+      .from('reply_suggestions')
+      .select('id, user_id, suggested_reply, user_edited_reply, post_attempts')
+      .eq('status', 'scheduled')
+      .lte('scheduled_for', new Date().toISOString())
+      .order('scheduled_for', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('ReplyPoster: Error selecting due replies:', error);
+      stats.errors.push(error.message);
+      return stats;
+    }
+
+    stats.due = dueReplies?.length || 0;
+    console.log(`ReplyPoster: ${stats.due} scheduled replies due`);
+
+    for (const reply of (dueReplies || []) as DueReply[]) {
+      // Claim the row so overlapping cron runs don't post it twice
+      const { data: claimed } = await supabase
+        .from('reply_suggestions')
+        .update({ status: 'posting', updated_at: new Date().toISOString() })
+        .eq('id', reply.id)
+        .eq('status', 'scheduled')
+        .select('id');
+
+      if (!claimed?.length) {
+        continue;
+      }
+
+      const attempts = (reply.post_attempts || 0) + 1;
+      const result = await this.postReply(
+        supabase,
+        reply.user_id,
+        reply.id,
+        reply.user_edited_reply || reply.suggested_reply,
+        true
+      );
+
+      if (result.success) {
+        stats.posted++;
+        await supabase
+          .from('reply_suggestions')
+          .update({ post_attempts: attempts })
+          .eq('id', reply.id);
+        continue;
+      }
+
+      const code = result.error?.code || 'unknown';
+      const canRetry = TRANSIENT_ERROR_CODES.includes(code) && attempts < MAX_POST_ATTEMPTS;
+
+      if (canRetry) {
+        stats.retried++;
+        const retryAt = new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+        await supabase
+          .from('reply_suggestions')
+          .update({
+            status: 'scheduled',
+            scheduled_for: retryAt.toISOString(),
+            post_attempts: attempts,
+            post_error_code: code,
+            post_error_message: result.error?.message || null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', reply.id);
+        console.log(`ReplyPoster: Reply ${reply.id} failed with ${code}, retrying at ${retryAt.toISOString()}`);
+      } else {
+        stats.failed++;
+        stats.errors.push(`Reply ${reply.id}: ${code}`);
+        await supabase
+          .from('reply_suggestions')
+          .update({
+            status: 'failed',
+            post_attempts: attempts,
+            post_error_code: code,
+            post_error_message: result.error?.message || null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', reply.id);
+        console.log(`ReplyPoster: Reply ${reply.id} failed permanently with ${code}`);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Release replies left in 'posting' by a request that never finished
+   * Scheduled ones keep their past time, so they are picked up as due right away; replies that
+   * were being posted directly go back to review
+   */
+  private async requeueStalePosts(supabase: SupabaseClient): Promise<void> {
+    const cutoff = new Date(Date.now() - POSTING_TIMEOUT_MS).toISOString();
+
+    const [requeued, returned] = await Promise.all([
+      supabase
+        .from('reply_suggestions')
+        .update({ status: 'scheduled', updated_at: new Date().toISOString() })
+        .eq('status', 'posting')
+        .not('scheduled_for', 'is', null)
+        .lt('updated_at', cutoff)
+        .select('id'),
+      supabase
+        .from('reply_suggestions')
+        .update({ status: 'pending', updated_at: new Date().toISOString() })
+        .eq('status', 'posting')
+        .is('scheduled_for', null)
+        .lt('updated_at', cutoff)
+        .select('id')
+    ]);
+
+    if (requeued.error || returned.error) {
+      console.error('ReplyPoster: Error releasing stale posts:', requeued.error || returned.error);
+      return;
+    }
+
+    const count = (requeued.data?.length || 0) + (returned.data?.length || 0);
+    if (count > 0) {
+      console.log(`ReplyPoster: Released ${count} replies stuck in posting`);
+    }
+  }
+}
+
+// Export singleton instance
+export const replyPoster = new ReplyPoster();
@@ -0,0 +1,92 @@
+// Reply variants: each curated post gets several replies that take a different stance,
+// so the user picks the angle that fits instead of rewriting a single suggestion.
+// Shared by the reply generator and the reply cards
+import { REPLY_LENGTH_LIMITS, type ReplyLength } from './voice-profile';
+
+export type ReplyStance = 'agree_extend' | 'question' | 'counterpoint' | 'resource';
+export type ReplyTone = 'voice' | 'casual' | 'professional' | 'playful';
+
+export interface ReplyVariant {
+  id: string;
+  stance: ReplyStance;
+  tone: ReplyTone;
+  length: ReplyLength | null;
+  content: string;
+  confidence: number;
+  version: number;
+  created_at: string;
+}
+
+// Quick toggles on the reply card; a null length keeps the voice profile's preferred length
+export interface ReplyStyle {
+  tone: ReplyTone;
+  length: ReplyLength | null;
+}
+
+export const REPLY_STANCES: Record<ReplyStance, { label: string; instruction: string }> = {
+  agree_extend: {
+    label: 'Agree & extend',
+    instruction: 'Agree with the post and build on it with an insight or experience of your own'
+  },
+  question: {
+    label: 'Question',
+    instruction: 'Ask one thoughtful question that invites the author to say more'
+  },
+  counterpoint: {
+    label: 'Counterpoint',
+    instruction: 'Respectfully offer a counterpoint or a different angle'
+  },
+  resource: {
+    label: 'Resource',
+    instruction: 'Point to a useful resource, tool or example that adds to the discussion, without inventing links'
+  }
+};
+
+export const REPLY_TONES: Record<ReplyTone, { label: string; instruction: string | null }> = {
+  voice: { label: 'My voice', instruction: null },
+  casual: { label: 'Casual', instruction: 'Relaxed and conversational, like talking to a friend' },
+  professional: { label: 'Professional', instruction: 'Polished and precise, like talking to a colleague' },
+  playful: { label: 'Playful', instruction: 'Light and witty, with a touch of humor' }
+};
+
+// Stances in the order variants are generated and shown
+export const STANCE_ORDER = Object.keys(REPLY_STANCES) as ReplyStance[];
+
+export const DEFAULT_REPLY_STYLE: ReplyStyle = { tone: 'voice', length: null };
+
+// Free-text regeneration instructions ("make it funnier") are kept short
+export const MAX_INSTRUCTION_LENGTH = 200;
+
+export function isReplyStance(value: unknown): value is ReplyStance {
+  return typeof value === 'string' && value in REPLY_STANCES;
+}
+
+/**
+ * Validate a style coming from the client, falling back to the defaults for unknown values
+ */
+export function parseReplyStyle(input: Partial<Record<keyof ReplyStyle, unknown>> | null | undefined): ReplyStyle {
+  const tone = input?.tone;
+  const length = input?.length;
+
+  return {
+    tone: typeof tone === 'string' && tone in REPLY_TONES ? tone as ReplyTone : DEFAULT_REPLY_STYLE.tone,
+    length: typeof length === 'string' && length in REPLY_LENGTH_LIMITS ? length as ReplyLength : null
+  };
+}
+
+/**
+ * Variants of the suggestion's current version; earlier versions are kept as history
+ */
+export function currentVariants(variants: ReplyVariant[] | null | undefined, version: number | undefined): ReplyVariant[] {
+  return (variants || []).filter(variant => variant.version === (version ?? 1));
+}
+
+/**
+ * Variants in display order: by stance, then newest first
+ */
+export function sortVariants(variants: ReplyVariant[]): ReplyVariant[] {
+  return [...variants].sort((a, b) =>
+    STANCE_ORDER.indexOf(a.stance) - STANCE_ORDER.indexOf(b.stance) ||
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
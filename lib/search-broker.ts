@@ -1,14 +1,50 @@
 import { createServiceClient } from '@/lib/supabase/server';
-import { TwitterApiService } from './twitter-api';
+import { TwitterApiService, newestTweetId, type TwitterReferencedTweet, type TwitterTweetAuthor } from './twitter-api';
+import { buildTopicQuery, splitQueryTerms, type TopicQuery } from './query-builder';
+import type { UsageContext } from './usage-ledger';
 
-interface TopicTarget {
+// Shared cache timings: entries are fresh for the TTL, then served stale while one worker refreshes them
+const CACHE_TTL_MS = parseInt(process.env.SEARCH_CACHE_TTL_MINUTES || '15') * 60 * 1000;
+const CACHE_STALE_MS = parseInt(process.env.SEARCH_CACHE_STALE_MINUTES || '60') * 60 * 1000;
+const CACHE_REFRESH_LOCK_MS = 2 * 60 * 1000;
+
+interface TopicTarget extends TopicQuery {
   id: string;
   monitoring_target_id: string;
-  keywords: string[];
-  hashtags: string[];
-  exclude_keywords: string[];
   min_engagement: number;
-  languages: string[];
+}
+
+interface ListTarget {
+  id: string;
+  monitoring_target_id: string;
+  twitter_list_id: string;
+  include_retweets: boolean;
+  max_posts_per_day: number;
+}
+
+interface AccountTarget {
+  id: string;
+  twitter_user_id: string;
+  twitter_handle: string;
+  last_seen_tweet_id: string | null;
+}
+
+interface FetchResult {
+  tweets: Tweet[];
+  // Newest tweet id seen, to be stored on the target as the next since_id
+  newestTweetId?: string;
+  cacheHit?: boolean;
+}
+
+interface CachedSearch {
+  tweets: Tweet[];
+  stale: boolean;
+}
+
+interface AccountTweetsResult {
+  tweets: Tweet[];
+  // Newest tweet id fetched per account target row, to be stored as the next since_id
+  newestTweetIds: Record<string, string>;
 }
 
 interface Tweet {
@@ -23,110 +59,82 @@ interface Tweet {
     quote_count: number;
   };
   in_reply_to_user_id?: string;
+  conversation_id?: string;
+  author?: TwitterTweetAuthor;
+  referenced?: TwitterReferencedTweet[];
 }
 
 interface CacheStats {
   hits: number;
+  staleHits: number; // Included in hits
   misses: number;
   hitRate: number;
 }
 
 export class SearchBroker {
-  private stats: CacheStats = { hits: 0, misses: 0, hitRate: 0 };
+  private stats: CacheStats = { hits: 0, staleHits: 0, misses: 0, hitRate: 0 };
+  private revalidations = new Map<string, Promise<void>>();
 
   /**
    * Build Twitter search query from topic target configuration
    */
-  buildQuery(target: TopicTarget): string {
-    const parts = [];
-    
-    // Build main search terms (keywords and hashtags combined with OR)
-    const searchTerms = [];
-    
-    // Add keywords (wrapped in quotes for exact matching)
-    if (target.keywords?.length) {
-      target.keywords.forEach(k => {
-        // Only wrap in quotes if it contains spaces (phrase search)
-        if (k.includes(' ')) {
-          searchTerms.push(`"${k}"`);
-        } else {
-          searchTerms.push(k);
-        }
-      });
-    }
-    
-    // Add hashtags
-    if (target.hashtags?.length) {
-      target.hashtags.forEach(h => {
-        // Ensure hashtag starts with #
-        searchTerms.push(h.startsWith('#') ? h : `#${h}`);
-      });
-    }
-    
-    // Combine all search terms with OR
-    if (searchTerms.length > 0) {
-      if (searchTerms.length === 1) {
-        parts.push(searchTerms[0]);
-      } else {
-        parts.push(`(${searchTerms.join(' OR ')})`);
-      }
-    }
-    
-    // Add exclusions
-    if (target.exclude_keywords?.length) {
-      target.exclude_keywords.forEach(k => {
-        // Wrap in quotes if it contains spaces
-        if (k.includes(' ')) {
-          parts.push(`-"${k}"`);
-        } else {
-          parts.push(`-${k}`);
-        }
-      });
-    }
-    
-    // Add standard filters
-    parts.push('-is:retweet'); // No retweets
-    parts.push('-is:reply'); // No replies (focus on original content)
-    parts.push('lang:en'); // English only
-    
-    const query = parts.join(' ');
+  buildQuery(target: TopicQuery): string {
+    const query = buildTopicQuery(target);
     console.log(`SearchBroker: Built query: "${query}"`);
     return query;
   }
 
   /**
    * Canonicalize query for consistent caching
-   * Normalizes query string to ensure cache hits for similar queries
+   * AND-ed terms and OR alternatives are sorted (recursively inside groups), so targets
+   * with the same terms in a different order share one cache entry
    */
   private canonicalize(query: string): string {
-    // For Twitter queries, we need to preserve the structure
-    // Just normalize case and whitespace, don't reorder
-    return query
-      .toLowerCase()
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
+    const disjuncts: string[][] = [[]];
+
+    for (const term of splitQueryTerms(query.replace(/\s+/g, ' ').trim()) || [query]) {
+      if (term === 'OR') {
+        disjuncts.push([]);
+        continue;
+      }
+
+      const group = term.match(/^(-?)\((.*)\)$/);
+      disjuncts[disjuncts.length - 1].push(
+        group ? `${group[1]}(${this.canonicalize(group[2])})` : term.toLowerCase()
+      );
+    }
+
+    return disjuncts
+      .filter(terms => terms.length > 0)
+      .map(terms => Array.from(new Set(terms)).sort().join(' '))
+      .sort()
+      .join(' OR ');
   }
 
   /**
    * Check if we have cached results for this query
+   * Entries past their TTL are still returned (marked stale) until the stale window ends
    */
-  private async getCached(canonicalQuery: string): Promise<Tweet[] | null> {
+  private async getCached(canonicalQuery: string): Promise<CachedSearch | null> {
     try {
       const supabase = createServiceClient();
       
       const { data, error } = await supabase
         .from('search_cache')
-        .select('raw_results, result_count')
+        .select('raw_results, expires_at')
         .eq('canonical_query', canonicalQuery)
-        .gt('expires_at', new Date().toISOString())
-        .single();
+        .eq('query_type', 'combined')
+        .gt('stale_until', new Date().toISOString())
+        .maybeSingle();
 
       if (error || !data) {
         return null;
       }
 
-      // Return the cached tweets
-      return data.raw_results as Tweet[];
+      return {
+        tweets: (data.raw_results || []) as Tweet[],
+        stale: new Date(data.expires_at).getTime() <= Date.now()
+      };
     } catch (error) {
       console.error('Error checking cache:', error);
       return null;
@@ -137,92 +145,264 @@ export class SearchBroker {
    * Cache search results for future use
    */
   private async cacheResults(canonicalQuery: string, tweets: Tweet[]): Promise<void> {
-    console.log('SearchBroker: Caching results:', tweets);
     try {
       const supabase = createServiceClient();
+      const now = Date.now();
       
-      await supabase
+      const { error } = await supabase
         .from('search_cache')
         .upsert({
           canonical_query: canonicalQuery,
           query_type: 'combined',
           raw_results: tweets,
           result_count: tweets.length,
-          expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString() // 5 minutes
+          expires_at: new Date(now + CACHE_TTL_MS).toISOString(),
+          stale_until: new Date(now + CACHE_TTL_MS + CACHE_STALE_MS).toISOString(),
+          refreshing_until: null,
+          updated_at: new Date(now).toISOString()
         }, {
           onConflict: 'canonical_query,query_type'
         });
-      console.log('SearchBroker: Cached results');
+
+      if (error) {
+        console.error('Error caching results:', error);
+        return;
+      }
+      console.log(`SearchBroker: Cached ${tweets.length} tweets`);
     } catch (error) {
       console.error('Error caching results:', error);
       // Don't throw - caching failure shouldn't break the main flow
     }
   }
 
+  /**
+   * Claim the refresh of a stale entry so only one worker re-fetches it
+   */
+  private async claimRefresh(canonicalQuery: string): Promise<boolean> {
+    try {
+      const supabase = createServiceClient();
+      const now = new Date().toISOString();
+
+      const { data, error } = await supabase
+        .from('search_cache')
+        .update({ refreshing_until: new Date(Date.now() + CACHE_REFRESH_LOCK_MS).toISOString() })
+        .eq('canonical_query', canonicalQuery)
+        .eq('query_type', 'combined')
+        .or(`refreshing_until.is.null,refreshing_until.lt.${now}`)
+        .select('id');
+
+      if (error) {
+        console.error('Error claiming cache refresh:', error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error('Error claiming cache refresh:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Refresh a stale entry in the background
+   * The refresh fetches the full window (no since_id) since the entry is shared by every target,
+   * so its X usage is recorded as system usage rather than against the user who hit the stale entry
+   */
+  private revalidate(canonicalQuery: string, query: string, maxResults: number): void {
+    if (this.revalidations.has(canonicalQuery)) {
+      return;
+    }
+
+    const refresh = (async () => {
+      if (!(await this.claimRefresh(canonicalQuery))) {
+        return;
+      }
+
+      try {
+        const twitterApi = TwitterApiService.createAppOnlyService();
+        const tweets = await twitterApi.searchTweets(query, { maxResults });
+        await this.cacheResults(canonicalQuery, tweets);
+        console.log(`SearchBroker: Revalidated stale cache entry (${tweets.length} tweets)`);
+      } catch (error) {
+        console.error('SearchBroker: Error revalidating cache entry:', error);
+      }
+    })().finally(() => {
+      this.revalidations.delete(canonicalQuery);
+    });
+
+    this.revalidations.set(canonicalQuery, refresh);
+  }
+
+  /**
+   * Wait for background cache refreshes started by this broker
+   * Call before the request ends so serverless runtimes don't drop them
+   */
+  async flushRevalidations(): Promise<void> {
+    await Promise.all(Array.from(this.revalidations.values()));
+  }
+
   /**
    * Fetch tweets for a topic target with intelligent caching
+   * Results are shared across users through search_cache, so a miss fetches the full window
+   * and caches it for every target with the query; only tweets newer than sinceId are returned
    */
-  async fetchTweets(target: TopicTarget, maxResults: number = 10): Promise<Tweet[]> {
+  async fetchTweets(
+    target: TopicTarget,
+    maxResults: number = 10,
+    sinceId?: string | null,
+    usage: UsageContext = {}
+  ): Promise<FetchResult> {
     const query = this.buildQuery(target);
+    const canonical = this.canonicalize(query);
 
-    console.log(`SearchBroker: Fetching tweets for target "${target.monitoring_target_id}"`);
+    console.log(`SearchBroker: Fetching tweets for target "${target.monitoring_target_id}"${sinceId ? ` since ${sinceId}` : ''}`);
+
+    // Check cache first
+    const cached = await this.getCached(canonical);
+    if (cached) {
+      this.stats.hits++;
+      if (cached.stale) {
+        this.stats.staleHits++;
+        this.revalidate(canonical, query, maxResults);
+      }
+      this.updateHitRate();
+
+      const newTweets = cached.tweets
+        .filter(tweet => !sinceId || BigInt(tweet.id) > BigInt(sinceId))
+        .slice(0, maxResults);
+
+      console.log(`SearchBroker: Cache ${cached.stale ? 'STALE HIT' : 'HIT'} for query (${newTweets.length} of ${cached.tweets.length} tweets are new)`);
+      return {
+        tweets: this.filterByEngagement(newTweets, target.min_engagement),
+        newestTweetId: newestTweetId(newTweets.map(tweet => tweet.id)),
+        cacheHit: true
+      };
+    }
+
+    // Cache miss - fetch from Twitter API
+    this.stats.misses++;
+    this.updateHitRate();
+    console.log('SearchBroker: Cache MISS, fetching from Twitter API');
 
     try {
-      const twitterApi = TwitterApiService.createAppOnlyService();
-      const tweets = await twitterApi.searchTweets(query, {
-        maxResults
-      });
+      const twitterApi = TwitterApiService.createAppOnlyService(usage);
+      // No since_id: the entry is shared, and a cursored fetch would cache this target's
+      // view of the query as the full result for everyone else
+      const tweets = await twitterApi.searchTweets(query, { maxResults });
 
-      console.log(`SearchBroker: Fetched ${tweets.length} tweets from Twitter API`);
-      return tweets;
+      // Cache the results for other users
+      await this.cacheResults(canonical, tweets);
+
+      const newTweets = tweets.filter(tweet => !sinceId || BigInt(tweet.id) > BigInt(sinceId));
+
+      console.log(`SearchBroker: Fetched ${tweets.length} tweets from Twitter API (${newTweets.length} are new)`);
+      return {
+        tweets: this.filterByEngagement(newTweets, target.min_engagement),
+        newestTweetId: newestTweetId(newTweets.map(tweet => tweet.id)),
+        cacheHit: false
+      };
     } catch (error) {
       console.error('SearchBroker: Error fetching from Twitter API:', error);
       throw error;
     }
   }
 
-  // TODO: this is the old fetchTweets function that uses caching, for now we are using the new fetchTweets function that does not use caching.
   /**
-   * Fetch tweets for a topic target with intelligent caching
+   * Run a single uncached search for a draft target's query
+   * Used to preview a target before it is saved, so nothing is cached and no cursor is kept
    */
-  // async fetchTweets(target: TopicTarget, maxResults: number = 10): Promise<Tweet[]> {
-  //   const query = this.buildQuery(target);
-  //   const canonical = this.canonicalize(query);
-    
-  //   console.log(`SearchBroker: Processing query for target "${target.monitoring_target_id}"`);
-    
-  //   // Check cache first
-  //   const cached = await this.getCached(canonical);
-  //   if (cached) {
-  //     this.stats.hits++;
-  //     this.updateHitRate();
-  //     console.log(`SearchBroker: Cache HIT for query (${cached.length} tweets)`);
-  //     return cached.slice(0, maxResults);
-  //   }
-    
-  //   // Cache miss - fetch from Twitter API
-  //   this.stats.misses++;
-  //   this.updateHitRate();
-  //   console.log(`SearchBroker: Cache MISS, fetching from Twitter API`);
-    
-  //   try {
-  //     const twitterApi = TwitterApiService.createAppOnlyService();
-  //     const tweets = await twitterApi.searchTweets(query, {
-  //       maxResults
-  //     });
-
-  //     console.log('SearchBroker: Tweets:', tweets);
-      
-  //     // Cache the results for other users
-  //     await this.cacheResults(canonical, tweets);
-      
-  //     console.log(`SearchBroker: Fetched ${tweets.length} tweets from Twitter API`);
-  //     return tweets.slice(0, maxResults);
-  //   } catch (error) {
-  //     console.error('SearchBroker: Error fetching from Twitter API:', error);
-  //     throw error;
-  //   }
-  // }
+  async sampleTweets(query: string, maxResults: number, usage: UsageContext = {}): Promise<Tweet[]> {
+    const twitterApi = TwitterApiService.createAppOnlyService(usage);
+    const tweets = await twitterApi.searchTweets(query, { maxResults });
+
+    console.log(`SearchBroker: Sampled ${tweets.length} tweets for draft query`);
+    return tweets;
+  }
+
+  /**
+   * Drop tweets below a target's minimum engagement (likes + retweets + replies)
+   * Recent search has no engagement operators on our API tier, so this runs after the fetch;
+   * the cache and since_id cursor still cover every fetched tweet.
+   */
+  filterByEngagement<T extends Tweet>(tweets: T[], minEngagement: number): T[] {
+    if (!minEngagement || minEngagement <= 0) {
+      return tweets;
+    }
+
+    const engaged = tweets.filter(tweet => {
+      const metrics = tweet.public_metrics;
+      return metrics.like_count + metrics.retweet_count + metrics.reply_count >= minEngagement;
+    });
+
+    console.log(`SearchBroker: ${engaged.length} of ${tweets.length} tweets meet minimum engagement of ${minEngagement}`);
+    return engaged;
+  }
+
+  /**
+   * Fetch recent tweets from a Twitter list target's timeline
+   */
+  async fetchListTweets(
+    target: ListTarget,
+    maxResults: number = 10,
+    sinceId?: string | null,
+    usage: UsageContext = {}
+  ): Promise<FetchResult> {
+    console.log(`SearchBroker: Fetching list ${target.twitter_list_id} for target "${target.monitoring_target_id}"`);
+
+    try {
+      const twitterApi = TwitterApiService.createAppOnlyService(usage);
+      const { tweets, newestId } = await twitterApi.getListTweets(target.twitter_list_id, {
+        maxResults,
+        includeRetweets: target.include_retweets,
+        sinceId: sinceId || undefined
+      });
+
+      console.log(`SearchBroker: Fetched ${tweets.length} new tweets from list ${target.twitter_list_id}`);
+      return { tweets, newestTweetId: newestId };
+    } catch (error) {
+      console.error('SearchBroker: Error fetching list from Twitter API:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch new original posts from each watched account since the last one seen
+   * A failing account (suspended, protected) is skipped so the rest still get polled
+   */
+  async fetchAccountTweets(
+    accounts: AccountTarget[],
+    maxResults: number = 10,
+    usage: UsageContext = {}
+  ): Promise<AccountTweetsResult> {
+    const result: AccountTweetsResult = { tweets: [], newestTweetIds: {} };
+    if (accounts.length === 0) {
+      return result;
+    }
+
+    // The user timeline endpoint returns between 5 and 100 tweets per request
+    const perAccount = Math.min(Math.max(Math.ceil(maxResults / accounts.length), 5), 20);
+    const twitterApi = TwitterApiService.createAppOnlyService(usage);
+
+    for (const account of accounts) {
+      try {
+        const tweets = await twitterApi.getUserTweets(account.twitter_user_id, perAccount, {
+          sinceId: account.last_seen_tweet_id || undefined
+        });
+
+        if (tweets.length > 0) {
+          // Timelines are returned newest first
+          result.newestTweetIds[account.id] = tweets[0].id;
+          result.tweets.push(...tweets.map(tweet => ({ ...tweet, author_id: tweet.author_id || account.twitter_user_id })));
+        }
+
+        console.log(`SearchBroker: Fetched ${tweets.length} new tweets from @${account.twitter_handle}`);
+      } catch (error) {
+        console.error(`SearchBroker: Error fetching tweets from @${account.twitter_handle}:`, error);
+      }
+    }
+
+    return result;
+  }
 
   /**
    * Update hit rate calculation
@@ -240,14 +420,14 @@ export class SearchBroker {
   }
 
   /**
-   * Reset statistics (useful for testing)
+   * Reset statistics (called at the start of every batch)
    */
   resetStats(): void {
-    this.stats = { hits: 0, misses: 0, hitRate: 0 };
+    this.stats = { hits: 0, staleHits: 0, misses: 0, hitRate: 0 };
   }
 
   /**
-   * Clean expired cache entries
+   * Clean cache entries past their stale window
    * This should be called periodically to keep the cache table manageable
    */
   async cleanExpiredCache(): Promise<number> {
@@ -257,7 +437,7 @@ export class SearchBroker {
       const { error } = await supabase
         .from('search_cache')
         .delete()
-        .lt('expires_at', new Date().toISOString());
+        .lt('stale_until', new Date().toISOString());
       
       if (error) {
         console.error('Error cleaning expired cache:', error);
@@ -0,0 +1,133 @@
+import { TwitterApiService, type TwitterReferencedTweet, type TwitterTweet } from './twitter-api';
+import type { UsageContext } from './usage-ledger';
+
+// Thread context for a curated post: the tweet it replies to, the tweet it quotes and the
+// top replies in its conversation. Fed into the reply prompt and shown on the reply card
+
+// Replies kept per post, most liked of those read first
+const TOP_REPLIES_PER_POST = 3;
+// Posts with fewer replies rarely have a discussion worth paying to read
+const MIN_REPLIES_FOR_LOOKUP = 3;
+// Each conversation is searched on its own so a busy one can't crowd out the others;
+// recent search reads at least 10 tweets per request
+const REPLIES_READ_PER_CONVERSATION = 10;
+
+export interface ContextTweet {
+  id: string;
+  authorHandle: string | null;
+  text: string;
+  likes?: number;
+}
+
+export interface ThreadContext {
+  conversationId: string | null;
+  repliedTo: ContextTweet | null;
+  quoted: ContextTweet | null;
+  topReplies: ContextTweet[];
+}
+
+function toContextTweet(tweet: TwitterTweet | TwitterReferencedTweet): ContextTweet {
+  return {
+    id: tweet.id,
+    authorHandle: tweet.author?.username || null,
+    text: tweet.text,
+    likes: 'public_metrics' in tweet ? tweet.public_metrics.like_count : undefined
+  };
+}
+
+/**
+ * Context for a tweet from its referenced tweets and the replies found in its conversation
+ * Returns null when there is nothing beyond the tweet itself
+ */
+export function buildThreadContext(tweet: TwitterTweet, conversationReplies: TwitterTweet[] = []): ThreadContext | null {
+  const repliedTo = tweet.referenced?.find(ref => ref.type === 'replied_to');
+  const quoted = tweet.referenced?.find(ref => ref.type === 'quoted');
+  const topReplies = conversationReplies
+    .filter(reply => reply.id !== tweet.id)
+    .sort((a, b) => b.public_metrics.like_count - a.public_metrics.like_count)
+    .slice(0, TOP_REPLIES_PER_POST)
+    .map(toContextTweet);
+
+  if (!repliedTo && !quoted && topReplies.length === 0) {
+    return null;
+  }
+
+  return {
+    conversationId: tweet.conversation_id || null,
+    repliedTo: repliedTo ? toContextTweet(repliedTo) : null,
+    quoted: quoted ? toContextTweet(quoted) : null,
+    topReplies
+  };
+}
+
+/**
+ * The thread section of the reply prompt; empty when there is no context
+ */
+export function formatThreadContext(context: ThreadContext | null | undefined): string {
+  if (!context) return '';
+
+  const author = (tweet: ContextTweet) => tweet.authorHandle ? `@${tweet.authorHandle}` : 'someone';
+  const lines: string[] = [];
+
+  if (context.repliedTo) {
+    lines.push(`The tweet is a reply to ${author(context.repliedTo)}: "${context.repliedTo.text}"`);
+  }
+  if (context.quoted) {
+    lines.push(`The tweet quotes ${author(context.quoted)}: "${context.quoted.text}"`);
+  }
+  if (context.topReplies.length > 0) {
+    lines.push('Top replies so far:');
+    context.topReplies.forEach(reply => lines.push(`- ${author(reply)}: "${reply.text}"`));
+  }
+
+  return lines.join('\n');
+}
+
+export class ThreadContextService {
+  /**
+   * Thread context for each tweet, keyed by tweet id
+   * Quoted and replied-to tweets already came with the fetch; replies are read for the busiest
+   * conversations, at most maxReads in all. The top replies are the most liked of the few most
+   * relevant replies X returns per conversation, a sample rather than the conversation's best
+   */
+  async getContexts(
+    tweets: TwitterTweet[],
+    maxReads: number,
+    usage: UsageContext = {}
+  ): Promise<Map<string, ThreadContext>> {
+    const conversationIds = Array.from(new Set(
+      [...tweets]
+        .filter(tweet => tweet.public_metrics.reply_count >= MIN_REPLIES_FOR_LOOKUP)
+        .sort((a, b) => b.public_metrics.reply_count - a.public_metrics.reply_count)
+        .map(tweet => tweet.conversation_id || tweet.id)
+    ));
+
+    const repliesByConversation = new Map<string, TwitterTweet[]>();
+    let readsLeft = maxReads;
+
+    for (const conversationId of conversationIds) {
+      if (REPLIES_READ_PER_CONVERSATION > readsLeft) break;
+      readsLeft -= REPLIES_READ_PER_CONVERSATION;
+
+      try {
+        const twitterApi = TwitterApiService.createAppOnlyService(usage);
+        const replies = await twitterApi.getConversationReplies([conversationId], REPLIES_READ_PER_CONVERSATION);
+        repliesByConversation.set(conversationId, replies);
+      } catch (error) {
+        // Context is optional; the replies are still generated without it
+        console.error('ThreadContext: Error fetching conversation replies:', error);
+      }
+    }
+
+    const contexts = new Map<string, ThreadContext>();
+    for (const tweet of tweets) {
+      const context = buildThreadContext(tweet, repliesByConversation.get(tweet.conversation_id || tweet.id));
+      if (context) {
+        contexts.set(tweet.id, context);
+      }
+    }
+
+    console.log(`ThreadContext: Built context for ${contexts.size} of ${tweets.length} posts (${maxReads - readsLeft} replies read)`);
+    return contexts;
+  }
+}
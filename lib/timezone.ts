@@ -0,0 +1,80 @@
+// Day boundaries in a user's own timezone (users_profiles.timezone, an IANA name)
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * The timezone to use for a user; missing or unknown names fall back to UTC
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  if (!timezone) return DEFAULT_TIMEZONE;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Wall-clock date and time parts of an instant in a timezone
+ */
+function getZonedParts(timezone: string, date: Date) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0');
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * How far the timezone's wall clock is ahead of UTC at an instant
+ */
+function getOffsetMs(timezone: string, date: Date): number {
+  const parts = getZonedParts(timezone, date);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant local midnight starts on a calendar date in a timezone
+ * Checked twice so a DST change on that day uses the offset in effect at midnight
+ */
+function zonedMidnight(timezone: string, year: number, month: number, day: number): Date {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const guess = utcMidnight - getOffsetMs(timezone, new Date(utcMidnight));
+  return new Date(utcMidnight - getOffsetMs(timezone, new Date(guess)));
+}
+
+/**
+ * The user's calendar date as YYYY-MM-DD, e.g. for curated_posts.digest_date
+ */
+export function getLocalDate(timezone: string, now: Date = new Date()): string {
+  const { year, month, day } = getZonedParts(resolveTimezone(timezone), now);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The instant the user's current day started
+ */
+export function startOfLocalDay(timezone: string, now: Date = new Date()): Date {
+  const zone = resolveTimezone(timezone);
+  const { year, month, day } = getZonedParts(zone, now);
+  return zonedMidnight(zone, year, month, day);
+}
+
@@ -0,0 +1,147 @@
+// Token encryption for OAuth tokens stored in the database
+// Values are AES-256-GCM envelopes prefixed with a format version and key id so keys can be rotated:
+//   v1:<keyId>:<iv>:<authTag>:<ciphertext>   (binary parts are base64url)
+
+import crypto from 'crypto';
+
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12; // Recommended nonce size for GCM
+const KEY_LENGTH = 32;
+
+// Written by the old createCipher implementation: hex IV (never actually used) and hex ciphertext without an auth tag
+const LEGACY_CIPHER_PATTERN = /^[0-9a-f]{32}:[0-9a-f]+$/;
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenEncryptionError';
+  }
+}
+
+interface KeyRing {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeyRing: KeyRing | null = null;
+
+/**
+ * Load the key ring from the environment
+ * TOKEN_ENCRYPTION_KEYS is a comma separated list of `<keyId>:<base64 32-byte key>`;
+ * TOKEN_ENCRYPTION_KEY_ID selects the key used for new values (defaults to the first entry).
+ * Older keys stay in the list until reencryption has moved every row off them.
+ */
+function getKeyRing(): KeyRing {
+  if (cachedKeyRing) {
+    return cachedKeyRing;
+  }
+
+  const rawKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!rawKeys) {
+    throw new TokenEncryptionError('TOKEN_ENCRYPTION_KEYS is not configured');
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of rawKeys.split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(keyId)) {
+      throw new TokenEncryptionError('TOKEN_ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>');
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new TokenEncryptionError(`Token encryption key "${keyId}" must be ${KEY_LENGTH} bytes`);
+    }
+    keys.set(keyId, key);
+  }
+
+  const currentKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID || keys.keys().next().value;
+  if (!currentKeyId || !keys.has(currentKeyId)) {
+    throw new TokenEncryptionError(`Token encryption key "${currentKeyId}" is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  cachedKeyRing = { currentKeyId, keys };
+  return cachedKeyRing;
+}
+
+export class TokenEncryption {
+  /**
+   * Encrypt a token with the current key
+   */
+  static encrypt(plaintext: string): string {
+    const { currentKeyId, keys } = getKeyRing();
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentKeyId)!, iv);
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [
+      FORMAT_VERSION,
+      currentKeyId,
+      iv.toString('base64url'),
+      authTag.toString('base64url'),
+      ciphertext.toString('base64url')
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a stored token
+   * Plaintext values written before encryption was enforced are returned as-is
+   * so existing sessions keep working until the reencryption routine has run.
+   */
+  static decrypt(stored: string): string {
+    if (!this.isEncrypted(stored)) {
+      if (LEGACY_CIPHER_PATTERN.test(stored)) {
+        throw new TokenEncryptionError('Token was stored in the legacy unauthenticated format and cannot be recovered');
+      }
+      return stored;
+    }
+
+    const [, keyId, ivPart, tagPart, ciphertextPart] = stored.split(':');
+    const key = getKeyRing().keys.get(keyId);
+    if (!key) {
+      throw new TokenEncryptionError(`Unknown token encryption key "${keyId}"`);
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivPart, 'base64url'));
+      decipher.setAuthTag(Buffer.from(tagPart, 'base64url'));
+
+      return Buffer.concat([
+        decipher.update(Buffer.from(ciphertextPart, 'base64url')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch {
+      throw new TokenEncryptionError('Token failed authentication and may have been tampered with');
+    }
+  }
+
+  /**
+   * Whether a stored value is a versioned envelope
+   */
+  static isEncrypted(stored: string): boolean {
+    return stored.startsWith(`${FORMAT_VERSION}:`) && stored.split(':').length === 5;
+  }
+
+  /**
+   * Whether a stored value should be rewritten with the current key
+   */
+  static needsReencryption(stored: string): boolean {
+    if (!this.isEncrypted(stored)) {
+      return true;
+    }
+    return stored.split(':')[1] !== getKeyRing().currentKeyId;
+  }
+
+  /**
+   * Whether a stored value can no longer be decrypted (legacy format written by createCipher)
+   */
+  static isUnrecoverable(stored: string): boolean {
+    return !this.isEncrypted(stored) && LEGACY_CIPHER_PATTERN.test(stored);
+  }
+}
+
+export default TokenEncryption;
@@ -1,4 +1,5 @@
-import { OpenAI } from 'openai';
+import { llmClient, type LlmClient } from './llm-provider';
+import { estimateLlmCost, type UsageContext } from './usage-ledger';
 
 interface Tweet {
   id: string;
@@ -25,32 +26,48 @@ interface TweetScores {
 }
 
 export class TweetFilter {
-  private openai: OpenAI;
+  private llm: LlmClient;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  constructor(llm: LlmClient = llmClient) {
+    this.llm = llm;
   }
   
   /**
    * Filter tweets for quality and score them for reply worthiness
+   * Tweets in seenTweetIds (already curated for the user) are dropped before scoring
+   * Scoring calls are recorded in the usage ledger under the given user and target;
+   * at most scoreLimit tweets are scored so callers can keep within a budget
    */
-  async filterForQuality(tweets: Tweet[]): Promise<FilteredTweet[]> {
+  async filterForQuality(
+    tweets: Tweet[],
+    seenTweetIds: Set<string> = new Set(),
+    usage: UsageContext = {},
+    scoreLimit: number = Infinity
+  ): Promise<FilteredTweet[]> {
+    // Drop tweets already curated for this user and repeats within the batch
+    const batchIds = new Set<string>();
+    const unseenTweets = tweets.filter(tweet => {
+      if (seenTweetIds.has(tweet.id) || batchIds.has(tweet.id)) {
+        return false;
+      }
+      batchIds.add(tweet.id);
+      return true;
+    });
+
     // Filter out tweets older than 24 hours
-    const recentTweets = tweets.filter(tweet => {
+    const recentTweets = unseenTweets.filter(tweet => {
       const hoursSincePost = (Date.now() - new Date(tweet.created_at).getTime()) / (1000 * 60 * 60);
       return hoursSincePost <= 24;
     });
 
     // Filter out junk tweets
-    const nonJunkTweets = recentTweets.filter(tweet => this.isNotJunk(tweet));
+    const nonJunkTweets = this.filterJunk(recentTweets).slice(0, scoreLimit);
 
     // Score tweets in parallel for better performance
     const scoredTweets = await Promise.all(
       nonJunkTweets.map(async (tweet) => ({
         ...tweet,
-        score: await this.scoreForReply(tweet)
+        score: await this.scoreForReply(tweet, usage)
       }))
     );
 
@@ -60,6 +77,13 @@ export class TweetFilter {
       .slice(0, 10); // Take top 10
   }
 
+  /**
+   * Drop junk tweets (too short, spammy, mostly links or mentions) without any AI scoring
+   */
+  filterJunk<T extends Tweet>(tweets: T[]): T[] {
+    return tweets.filter(tweet => this.isNotJunk(tweet));
+  }
+
   /**
    * Determine if a tweet is junk and should be filtered out
    */
@@ -85,15 +109,15 @@ export class TweetFilter {
   /**
    * Score a tweet for reply worthiness (0-100) using AI
    */
-  private async scoreForReply(tweet: Tweet): Promise<number> {
-    const aiScores = await this.scoreTweet(tweet);
+  private async scoreForReply(tweet: Tweet, usage: UsageContext): Promise<number> {
+    const aiScores = await this.scoreTweet(tweet, usage);
     return Math.round(aiScores.score * 100); // Convert 0-1 to 0-100 scale
   }
 
   /**
-   * Score tweet using OpenAI API for reply worthiness
+   * Score tweet for reply worthiness using the LLM
    */
-  private async scoreTweet(tweet: Tweet): Promise<TweetScores> {
+  private async scoreTweet(tweet: Tweet, usage: UsageContext): Promise<TweetScores> {
     try {
       const hoursSincePost = (Date.now() - new Date(tweet.created_at).getTime()) / (1000 * 60 * 60);
       const totalEngagement = tweet.public_metrics.like_count +
@@ -119,8 +143,8 @@ export class TweetFilter {
         {"score": 0.75, "reasoning": "Brief explanation"}
       `;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const { data: result } = await this.llm.completeJson<TweetScores>({
+        task: 'scoring',
         messages: [
           {
             role: 'system',
@@ -132,22 +156,10 @@ export class TweetFilter {
           }
         ],
         temperature: 0.3,
-        max_tokens: 100,
+        maxTokens: 100,
+        context: usage
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
-
-      // Clean the content - remove markdown code blocks if present
-      const cleanContent = content
-        .replace(/```json\s*/gi, '')
-        .replace(/```\s*/g, '')
-        .trim();
-
-      const result = JSON.parse(cleanContent) as TweetScores;
-
       // Validate score is in range
       result.score = Math.max(0, Math.min(1, result.score));
 
@@ -194,6 +206,24 @@ export class TweetFilter {
   }
 
 
+  /**
+   * Estimate the cost of scoring tweets
+   * Priced for the model configured for the scoring task
+   */
+  estimateCost(numberOfTweets: number): number {
+    // Rough estimation:
+    // - Average prompt: ~400 tokens
+    // - Average response: ~40 tokens
+    const avgInputTokensPerTweet = 400;
+    const avgOutputTokensPerTweet = 40;
+
+    return estimateLlmCost(
+      this.llm.getModel('scoring'),
+      numberOfTweets * avgInputTokensPerTweet,
+      numberOfTweets * avgOutputTokensPerTweet
+    );
+  }
+
   /**
    * Get statistics about filtering results
    */
@@ -1,6 +1,9 @@
 // Twitter API v2 service for secure server-side operations
 // This service handles all Twitter API interactions with proper authentication and rate limiting
 
+import { TwitterCredentialsService } from './twitter-credentials';
+import { usageLedger, type UsageContext } from './usage-ledger';
+
 export interface TwitterUser {
   id: string;
   username: string;
@@ -13,9 +16,20 @@ export interface TwitterUser {
     listed_count: number;
   };
   verified?: boolean;
+  profile_image_url?: string;
   created_at: string;
 }
 
+// Author details joined onto a tweet from the `includes.users` expansion
+export interface TwitterTweetAuthor {
+  id: string;
+  username: string;
+  name: string;
+  profile_image_url?: string;
+  followers_count?: number;
+  verified?: boolean;
+}
+
 export interface TwitterTweet {
   id: string;
   text: string;
@@ -26,6 +40,7 @@ export interface TwitterTweet {
     like_count: number;
     reply_count: number;
     quote_count: number;
+    impression_count?: number;
   };
   context_annotations?: Array<{
     domain: {
@@ -44,6 +59,18 @@ export interface TwitterTweet {
     type: 'retweeted' | 'quoted' | 'replied_to';
     id: string;
   }>;
+  conversation_id?: string;
+  author?: TwitterTweetAuthor;
+  // Quoted and replied-to tweets joined from the `referenced_tweets.id` expansion
+  referenced?: TwitterReferencedTweet[];
+}
+
+export interface TwitterReferencedTweet {
+  type: 'quoted' | 'replied_to';
+  id: string;
+  text: string;
+  author_id: string;
+  author?: TwitterTweetAuthor;
 }
 
 export interface TwitterList {
@@ -78,6 +105,120 @@ export interface TwitterApiResponse<T> {
   }>;
 }
 
+export interface TwitterPostedTweet {
+  id: string;
+  text: string;
+}
+
+export type TwitterApiErrorCode =
+  | 'duplicate_content'
+  | 'parent_tweet_unavailable'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'invalid_request'
+  | 'not_found'
+  | 'unknown';
+
+/**
+ * Error thrown for failed Twitter API calls.
+ * `code` classifies the failure so callers can react without parsing messages.
+ */
+export class TwitterApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: TwitterApiErrorCode
+  ) {
+    super(message);
+    this.name = 'TwitterApiError';
+  }
+}
+
+// Tweet ids are snowflakes: the creation time in ms since this epoch, shifted left 22 bits
+const TWITTER_EPOCH_MS = 1288834974657;
+
+/**
+ * When a tweet was created, derived from its id
+ */
+export function tweetIdToDate(tweetId: string): Date {
+  return new Date(Number(BigInt(tweetId) >> BigInt(22)) + TWITTER_EPOCH_MS);
+}
+
+/**
+ * Pick the newest of a set of tweet ids (ids are too large to compare as numbers)
+ */
+export function newestTweetId(tweetIds: string[]): string | undefined {
+  return tweetIds.reduce<string | undefined>(
+    (newest, id) => (!newest || BigInt(id) > BigInt(newest) ? id : newest),
+    undefined
+  );
+}
+
+// User fields requested alongside tweets so authors can be shown and scored without extra lookups
+const AUTHOR_USER_FIELDS = 'username,name,verified,public_metrics,profile_image_url';
+
+// Tweet fields and expansions for posts that may be replied to; the quoted or replied-to
+// tweet and its author come back as expansions, which are not billed as reads
+const POST_TWEET_FIELDS = 'created_at,public_metrics,context_annotations,lang,referenced_tweets,author_id,conversation_id';
+const POST_EXPANSIONS = 'author_id,referenced_tweets.id,referenced_tweets.id.author_id';
+
+// Recent search queries are limited to 512 characters, which fits this many conversation_id clauses
+const CONVERSATIONS_PER_SEARCH = 10;
+
+/**
+ * Join expanded users onto their tweets as `author`
+ */
+function attachAuthors(tweets: TwitterTweet[], users: TwitterUser[] = []): TwitterTweet[] {
+  const usersById = new Map(users.map(user => [user.id, user]));
+
+  return tweets.map(tweet => {
+    const user = usersById.get(tweet.author_id);
+    if (!user) {
+      return tweet;
+    }
+
+    return {
+      ...tweet,
+      author: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        profile_image_url: user.profile_image_url,
+        followers_count: user.public_metrics?.followers_count,
+        verified: user.verified
+      }
+    };
+  });
+}
+
+/**
+ * Join expanded quoted and replied-to tweets onto the tweets that reference them as `referenced`
+ */
+function attachReferencedTweets(tweets: TwitterTweet[], includes: TwitterApiResponse<unknown>['includes']): TwitterTweet[] {
+  const includedTweets = new Map(
+    attachAuthors(includes?.tweets || [], includes?.users).map(tweet => [tweet.id, tweet])
+  );
+
+  return tweets.map(tweet => {
+    const referenced: TwitterReferencedTweet[] = [];
+    for (const ref of tweet.referenced_tweets || []) {
+      const included = includedTweets.get(ref.id);
+      if (ref.type !== 'retweeted' && included) {
+        referenced.push({
+          type: ref.type,
+          id: included.id,
+          text: included.text,
+          author_id: included.author_id,
+          author: included.author
+        });
+      }
+    }
+
+    return referenced.length > 0 ? { ...tweet, referenced } : tweet;
+  });
+}
+
 export interface TwitterUserAnalysis {
   user: TwitterUser;
   recentTweets: TwitterTweet[];
@@ -98,20 +239,60 @@ export interface TwitterUserAnalysis {
 }
 
 export class TwitterApiService {
-  private baseUrl = 'https://api.twitter.com/2';
+  // Overridable so tests can point the service at a mock X server
+  private baseUrl = process.env.TWITTER_API_BASE_URL || 'https://api.twitter.com/2';
   
+  // Set for user-token services so an expired access token can be refreshed and retried
+  private userId?: string;
+
+  // User and target every call is recorded against in the usage ledger
+  private usageContext: UsageContext = {};
+
   constructor(private accessToken: string, private refreshToken?: string) {}
 
+  /**
+   * Create a service instance acting as a specific user (OAuth 2.0 user context)
+   * Loads the stored tokens and refreshes the access token first if it has expired
+   */
+  static async createForUser(userId: string): Promise<TwitterApiService> {
+    const credentials = await TwitterCredentialsService.getCredentials(userId);
+
+    if (!credentials || credentials.needsReconnect) {
+      throw new TwitterApiError('Twitter API authentication failed: Please reconnect your Twitter account.', 401, 'unauthorized');
+    }
+
+    let accessToken = credentials.accessToken;
+    if (TwitterCredentialsService.isExpired(credentials)) {
+      const refreshed = await TwitterCredentialsService.refreshAccessToken(userId);
+      if (!refreshed.success || !refreshed.accessToken) {
+        // Only a rejected refresh token needs the user; anything else may succeed on retry
+        if (refreshed.needsReconnect) {
+          throw new TwitterApiError('Twitter API authentication failed: Please reconnect your Twitter account.', 401, 'unauthorized');
+        }
+        throw new TwitterApiError(refreshed.error || 'Failed to refresh Twitter token', 500, 'unknown');
+      }
+      accessToken = refreshed.accessToken;
+    }
+
+    const service = new TwitterApiService(accessToken);
+    service.userId = userId;
+    service.usageContext = { userId };
+    return service;
+  }
+
   /**
    * Create a service instance using app-only authentication (Bearer Token)
    * This allows fetching public data without user-specific tokens
+   * Calls are recorded against the given user and target, or as system usage
    */
-  static createAppOnlyService(): TwitterApiService {
+  static createAppOnlyService(usageContext: UsageContext = {}): TwitterApiService {
     const bearerToken = process.env.TWITTER_BEARER_TOKEN;
     if (!bearerToken) {
       throw new Error('TWITTER_BEARER_TOKEN environment variable is required');
     }
-    return new TwitterApiService(bearerToken);
+    const service = new TwitterApiService(bearerToken);
+    service.usageContext = usageContext;
+    return service;
   }
 
   /**
@@ -134,20 +315,84 @@ export class TwitterApiService {
 
   /**
    * Get user's recent tweets for analysis (up to 100 most recent)
+   * Pass sinceId to only get tweets newer than the last one already seen
    */
-  async getUserTweets(userId: string, maxResults: number = 20): Promise<TwitterTweet[]> {
-    const response = await this.makeRequest<TwitterTweet[]>(
-      `/users/${userId}/tweets`,
+  async getUserTweets(
+    userId: string,
+    maxResults: number = 20,
+    options: { sinceId?: string } = {}
+  ): Promise<TwitterTweet[]> {
+    const params: Record<string, string> = {
+      'max_results': Math.min(maxResults, 20).toString(),
+      'tweet.fields': POST_TWEET_FIELDS,
+      'expansions': POST_EXPANSIONS,
+      'user.fields': AUTHOR_USER_FIELDS,
+      'exclude': 'retweets,replies' // Focus on original content
+    };
+
+    if (options.sinceId) params.since_id = options.sinceId;
+
+    const response = await this.makeRequest<TwitterTweet[]>(`/users/${userId}/tweets`, params);
+    
+    return attachReferencedTweets(attachAuthors(response.data || [], response.includes?.users), response.includes);
+  }
+
+  /**
+   * Look up several users by username in one request (up to 100)
+   * Usernames that don't exist or are suspended are simply missing from the result
+   */
+  async getUsersByUsernames(usernames: string[]): Promise<TwitterUser[]> {
+    if (usernames.length === 0) {
+      return [];
+    }
+
+    const response = await this.makeRequest<TwitterUser[]>(
+      '/users/by',
       {
-        'max_results': Math.min(maxResults, 20).toString(),
-        'tweet.fields': 'created_at,public_metrics,context_annotations,lang,referenced_tweets',
-        'exclude': 'retweets,replies' // Focus on original content
+        'usernames': usernames.slice(0, 100).join(','),
+        'user.fields': 'name,username,public_metrics,verified,created_at'
       }
     );
-    
+
     return response.data || [];
   }
 
+  /**
+   * Get accounts a user follows, newest follows first (up to maxUsers)
+   */
+  async getFollowing(userId: string, maxUsers: number = 1000): Promise<TwitterUser[]> {
+    return this.getUserConnections(`/users/${userId}/following`, maxUsers);
+  }
+
+  /**
+   * Get a user's followers, newest followers first (up to maxUsers)
+   */
+  async getFollowers(userId: string, maxUsers: number = 1000): Promise<TwitterUser[]> {
+    return this.getUserConnections(`/users/${userId}/followers`, maxUsers);
+  }
+
+  /**
+   * Page through a follow graph endpoint (1000 users per page)
+   */
+  private async getUserConnections(endpoint: string, maxUsers: number): Promise<TwitterUser[]> {
+    const users: TwitterUser[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const params: Record<string, string> = {
+        'max_results': Math.min(Math.max(maxUsers - users.length, 1), 1000).toString(),
+        'user.fields': 'username'
+      };
+      if (paginationToken) params.pagination_token = paginationToken;
+
+      const response = await this.makeRequest<TwitterUser[]>(endpoint, params);
+      users.push(...(response.data || []));
+      paginationToken = response.meta?.next_token;
+    } while (paginationToken && users.length < maxUsers);
+
+    return users;
+  }
+
   /**
    * Get user's recent tweets by username (for app-only authentication)
    */
@@ -198,6 +443,85 @@ export class TwitterApiService {
     return response.data || [];
   }
 
+  /**
+   * Get a list's details along with its owner
+   */
+  async getList(listId: string): Promise<{ list: TwitterList; owner?: TwitterUser }> {
+    const response = await this.makeRequest<TwitterList>(
+      `/lists/${listId}`,
+      {
+        'list.fields': 'description,follower_count,member_count,private,owner_id,created_at',
+        'expansions': 'owner_id',
+        'user.fields': 'username,name'
+      }
+    );
+
+    if (!response.data) {
+      throw new TwitterApiError(`Twitter list ${listId} not found`, 404, 'not_found');
+    }
+
+    return {
+      list: response.data,
+      owner: response.includes?.users?.find(user => user.id === response.data!.owner_id)
+    };
+  }
+
+  /**
+   * Get the most recent tweets from a list's timeline
+   * Retweets are dropped unless includeRetweets is set, in which case they are
+   * replaced by the original tweet so replies target the actual author.
+   * The list endpoint has no since_id, so entries at or before sinceId are dropped here;
+   * newestId is the newest timeline entry and should be passed as sinceId next time.
+   */
+  async getListTweets(
+    listId: string,
+    options: {
+      maxResults?: number;
+      includeRetweets?: boolean;
+      sinceId?: string;
+    } = {}
+  ): Promise<{ tweets: TwitterTweet[]; newestId?: string }> {
+    const response = await this.makeRequest<TwitterTweet[]>(
+      `/lists/${listId}/tweets`,
+      {
+        'tweet.fields': POST_TWEET_FIELDS,
+        'expansions': POST_EXPANSIONS,
+        'user.fields': AUTHOR_USER_FIELDS,
+        'max_results': Math.min(Math.max(options.maxResults || 10, 1), 100).toString()
+      }
+    );
+
+    const users = response.includes?.users;
+    const tweets = attachReferencedTweets(attachAuthors(response.data || [], users), response.includes).filter(
+      tweet => !options.sinceId || BigInt(tweet.id) > BigInt(options.sinceId)
+    );
+    const referencedTweets = new Map(
+      attachAuthors(response.includes?.tweets || [], users).map(tweet => [tweet.id, tweet])
+    );
+    const seen = new Set<string>();
+    const results: TwitterTweet[] = [];
+
+    for (const tweet of tweets) {
+      const retweetOf = tweet.referenced_tweets?.find(ref => ref.type === 'retweeted');
+      let resolved: TwitterTweet | undefined = tweet;
+
+      if (retweetOf) {
+        resolved = options.includeRetweets ? referencedTweets.get(retweetOf.id) : undefined;
+      }
+
+      // Several list members can retweet the same post
+      if (resolved && !seen.has(resolved.id)) {
+        seen.add(resolved.id);
+        results.push(resolved);
+      }
+    }
+
+    return {
+      tweets: results,
+      newestId: newestTweetId(tweets.map(tweet => tweet.id))
+    };
+  }
+
   /**
    * Search for tweets by query
    */
@@ -209,13 +533,14 @@ export class TwitterApiService {
       untilId?: string;
       startTime?: string;
       endTime?: string;
+      sortOrder?: 'recency' | 'relevancy';
     } = {}
   ): Promise<TwitterTweet[]> {
     const params: Record<string, string> = {
       'query': query,
-      'tweet.fields': 'created_at,public_metrics,context_annotations,lang,referenced_tweets',
-      'expansions': 'author_id',
-      'user.fields': 'username,name,verified,public_metrics',
+      'tweet.fields': POST_TWEET_FIELDS,
+      'expansions': POST_EXPANSIONS,
+      'user.fields': AUTHOR_USER_FIELDS,
       'max_results': (options.maxResults || 10).toString()
     };
 
@@ -223,11 +548,90 @@ export class TwitterApiService {
     if (options.untilId) params.until_id = options.untilId;
     if (options.startTime) params.start_time = options.startTime;
     if (options.endTime) params.end_time = options.endTime;
+    if (options.sortOrder) params.sort_order = options.sortOrder;
 
     const response = await this.makeRequest<TwitterTweet[]>('/tweets/search/recent', params);
+    return attachReferencedTweets(attachAuthors(response.data || [], response.includes?.users), response.includes);
+  }
+
+  /**
+   * Most relevant replies in several conversations, searched together to save requests
+   * maxResults applies per search of up to CONVERSATIONS_PER_SEARCH conversations
+   */
+  async getConversationReplies(conversationIds: string[], maxResults: number = 10): Promise<TwitterTweet[]> {
+    const replies: TwitterTweet[] = [];
+
+    for (let i = 0; i < conversationIds.length; i += CONVERSATIONS_PER_SEARCH) {
+      const chunk = conversationIds.slice(i, i + CONVERSATIONS_PER_SEARCH);
+      const query = `(${chunk.map(id => `conversation_id:${id}`).join(' OR ')}) is:reply -is:retweet`;
+      replies.push(...await this.searchTweets(query, {
+        // Recent search returns between 10 and 100 tweets per request
+        maxResults: Math.min(Math.max(maxResults, 10), 100),
+        sortOrder: 'relevancy'
+      }));
+    }
+
+    return replies;
+  }
+
+  /**
+   * Get a single tweet with its public metrics
+   */
+  async getTweetMetrics(tweetId: string): Promise<TwitterTweet | null> {
+    const response = await this.makeRequest<TwitterTweet>(
+      `/tweets/${tweetId}`,
+      {
+        'tweet.fields': 'created_at,public_metrics'
+      }
+    );
+
+    return response.data || null;
+  }
+
+  /**
+   * Get public metrics for up to 100 tweets in one request
+   */
+  async getTweetsMetrics(tweetIds: string[]): Promise<TwitterTweet[]> {
+    if (tweetIds.length === 0) {
+      return [];
+    }
+
+    const response = await this.makeRequest<TwitterTweet[]>(
+      '/tweets',
+      {
+        'ids': tweetIds.slice(0, 100).join(','),
+        'tweet.fields': 'created_at,public_metrics'
+      }
+    );
+
     return response.data || [];
   }
 
+  /**
+   * Post a tweet on behalf of the authenticated user, optionally as a reply
+   * Requires a user access token with the tweet.write scope
+   */
+  async postTweet(
+    text: string,
+    options: { inReplyToTweetId?: string } = {}
+  ): Promise<TwitterPostedTweet> {
+    const body: Record<string, unknown> = { text };
+    if (options.inReplyToTweetId) {
+      body.reply = { in_reply_to_tweet_id: options.inReplyToTweetId };
+    }
+
+    const response = await this.makeRequest<TwitterPostedTweet>('/tweets', {}, {
+      method: 'POST',
+      body
+    });
+
+    if (!response.data?.id) {
+      throw new TwitterApiError('Twitter API did not return the created tweet', 500, 'unknown');
+    }
+
+    return response.data;
+  }
+
   /**
    * Analyze user's Twitter history for voice training and smart discovery
    */
@@ -283,7 +687,8 @@ export class TwitterApiService {
 
   private async makeRequest<T>(
     endpoint: string,
-    params: Record<string, string> = {}
+    params: Record<string, string> = {},
+    options: { method?: 'GET' | 'POST' | 'DELETE'; body?: unknown; isRetry?: boolean } = {}
   ): Promise<TwitterApiResponse<T>> {
     const url = new URL(`${this.baseUrl}${endpoint}`);
     Object.entries(params).forEach(([key, value]) => {
@@ -291,10 +696,12 @@ export class TwitterApiService {
     });
 
     const response = await fetch(url.toString(), {
+      method: options.method || 'GET',
       headers: {
         'Authorization': `Bearer ${this.accessToken}`,
         'Content-Type': 'application/json',
       },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
     });
 
     // Parse response body once
@@ -305,9 +712,13 @@ export class TwitterApiService {
       data = JSON.parse(responseText);
     } catch (e) {
       if (!response.ok) {
-        throw new Error(`Twitter API error (${response.status} ${response.statusText}): Invalid JSON response - ${responseText}`);
+        throw new TwitterApiError(
+          `Twitter API error (${response.status} ${response.statusText}): Invalid JSON response - ${responseText}`,
+          response.status,
+          TwitterApiService.classifyError(response.status, responseText)
+        );
       }
-      throw new Error(`Failed to parse Twitter API response: ${responseText}`);
+      throw new TwitterApiError(`Failed to parse Twitter API response: ${responseText}`, response.status, 'unknown');
     }
 
     if (!response.ok) {
@@ -326,22 +737,88 @@ export class TwitterApiService {
         errorDetail = JSON.stringify(data);
       }
 
+      const code = TwitterApiService.classifyError(response.status, errorDetail);
+
       if (response.status === 401) {
-        throw new Error(`Twitter API authentication failed: ${errorDetail || 'Please reconnect your Twitter account.'}`);
+        // Access tokens expire after two hours; refresh once and replay the request
+        if (this.userId && !options.isRetry) {
+          const refreshed = await TwitterCredentialsService.refreshAccessToken(this.userId);
+          if (refreshed.success && refreshed.accessToken) {
+            this.accessToken = refreshed.accessToken;
+            return this.makeRequest<T>(endpoint, params, { ...options, isRetry: true });
+          }
+        }
+        throw new TwitterApiError(`Twitter API authentication failed: ${errorDetail || 'Please reconnect your Twitter account.'}`, 401, code);
       }
       if (response.status === 429) {
-        throw new Error(`Twitter API rate limit exceeded: ${errorDetail || 'Please try again later.'}`);
+        throw new TwitterApiError(`Twitter API rate limit exceeded: ${errorDetail || 'Please try again later.'}`, 429, code);
       }
-      throw new Error(`Twitter API error (${response.status} ${response.statusText}): ${errorDetail || 'No additional details available'}`);
+      throw new TwitterApiError(`Twitter API error (${response.status} ${response.statusText}): ${errorDetail || 'No additional details available'}`, response.status, code);
     }
     
-    if (data.errors && data.errors.length > 0) {
-      throw new Error(`Twitter API error: ${data.errors[0].detail}`);
+    // Partial errors (e.g. an unknown username in a batch lookup or a deleted expanded tweet)
+    // come back alongside data, so only fail when nothing usable was returned
+    if (data.errors && data.errors.length > 0 && data.data === undefined) {
+      const notFound = data.errors[0].title === 'Not Found Error';
+      throw new TwitterApiError(
+        `Twitter API error: ${data.errors[0].detail}`,
+        notFound ? 404 : response.status,
+        notFound ? 'not_found' : 'unknown'
+      );
     }
 
+    await this.recordUsage(endpoint, options.method || 'GET', data);
     return data;
   }
 
+  /**
+   * Record a successful call in the usage ledger
+   * Only endpoints returning posts are billed, per post returned (expansions are not counted);
+   * user and list lookups are logged under their own resource type without a read cost
+   */
+  private async recordUsage(endpoint: string, method: string, data: TwitterApiResponse<unknown>): Promise<void> {
+    if (method !== 'GET') {
+      await usageLedger.record({ ...this.usageContext, operationType: 'twitter_write' });
+      return;
+    }
+
+    const resource = TwitterApiService.readResource(endpoint);
+    const count = Array.isArray(data.data) ? data.data.length : data.data ? 1 : 0;
+
+    await usageLedger.record({
+      ...this.usageContext,
+      operationType: `twitter_${resource}_read`,
+      postsFetched: resource === 'posts' ? count : 0
+    });
+  }
+
+  /**
+   * What a GET endpoint returns: posts (/tweets, /users/:id/tweets, /lists/:id/tweets),
+   * lists (/lists/:id, owned lists and memberships) or users (everything else under /users)
+   */
+  private static readResource(endpoint: string): 'posts' | 'lists' | 'users' {
+    if (/(^|\/)tweets(\/|$)/.test(endpoint)) return 'posts';
+    if (endpoint.startsWith('/lists/') || /(owned_lists|list_memberships)$/.test(endpoint)) return 'lists';
+    return 'users';
+  }
+
+  /**
+   * Map an HTTP status and error detail from the Twitter API to an error code
+   */
+  private static classifyError(status: number, detail: string): TwitterApiErrorCode {
+    const normalized = detail.toLowerCase();
+
+    if (status === 401) return 'unauthorized';
+    if (status === 429) return 'rate_limited';
+    if (normalized.includes('duplicate content')) return 'duplicate_content';
+    if (normalized.includes('deleted or not visible') || (status === 404 && normalized.includes('tweet'))) {
+      return 'parent_tweet_unavailable';
+    }
+    if (status === 403) return 'forbidden';
+    if (status === 400) return 'invalid_request';
+    return 'unknown';
+  }
+
   private analyzeWritingStyle(tweets: TwitterTweet[]) {
     if (tweets.length === 0) {
       return {
@@ -1,69 +1,47 @@
-import { createClient } from '@/lib/supabase/server';
-import crypto from 'crypto';
+import { createServiceClient } from '@/lib/supabase/server';
+import { TokenEncryption } from './token-encryption';
 
-// Encryption key from environment variable
-const ENCRYPTION_KEY = process.env.TWITTER_ENCRYPTION_KEY || 'default-key-change-in-production';
+// OAuth 2.0 token endpoint; follows TWITTER_API_BASE_URL so tests can use a mock X server
+const TOKEN_URL = `${process.env.TWITTER_API_BASE_URL || 'https://api.twitter.com/2'}/oauth2/token`;
 
-interface TwitterCredentials {
+// Refresh this long before the recorded expiry to avoid racing it
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// How long a refresh holds the row lock, and how often others check whether it finished
+const REFRESH_LOCK_MS = 30 * 1000;
+const REFRESH_POLL_MS = 500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export interface TwitterCredentials {
   accessToken: string;
   refreshToken?: string;
   userId: string;
   username: string;
   expiresAt?: Date;
+  needsReconnect?: boolean;
 }
 
-export class TwitterCredentialsService {
-  /**
-   * Encrypt sensitive data before storing in database
-   */
-  private static encrypt(text: string): string {
-    try {
-      const algorithm = 'aes-256-gcm';
-      const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
-      const iv = crypto.randomBytes(16);
-      const cipher = crypto.createCipher(algorithm, key);
-      
-      let encrypted = cipher.update(text, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-      
-      return iv.toString('hex') + ':' + encrypted;
-    } catch (error) {
-      console.error('Encryption error:', error);
-      // Fallback to base64 encoding if encryption fails
-      return Buffer.from(text).toString('base64');
-    }
-  }
+export interface TokenRefreshResult {
+  success: boolean;
+  accessToken?: string;
+  needsReconnect?: boolean;
+  error?: string;
+}
 
-  /**
-   * Decrypt sensitive data when retrieving from database
-   */
-  private static decrypt(encryptedText: string): string {
-    try {
-      if (!encryptedText.includes(':')) {
-        // Fallback for base64 encoded data
-        return Buffer.from(encryptedText, 'base64').toString('utf8');
-      }
+export interface TokenReencryptionStats {
+  scanned: number;
+  reencrypted: number;
+  needsReconnect: number;
+  errors: string[];
+}
 
-      const algorithm = 'aes-256-gcm';
-      const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
-      const [ivHex, encrypted] = encryptedText.split(':');
-      const iv = Buffer.from(ivHex, 'hex');
-      const decipher = crypto.createDecipher(algorithm, key);
-      
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
-    } catch (error) {
-      console.error('Decryption error:', error);
-      // If decryption fails, try base64 fallback
-      try {
-        return Buffer.from(encryptedText, 'base64').toString('utf8');
-      } catch {
-        throw new Error('Failed to decrypt Twitter credentials');
-      }
-    }
-  }
+export class TwitterCredentialsService {
+  // Refresh tokens are single-use, so concurrent refreshes for one user must share a request;
+  // this covers one process, the row lock in claimRefresh covers the others
+  private static refreshesInFlight = new Map<string, Promise<TokenRefreshResult>>();
 
   /**
    * Store Twitter credentials securely in the database
@@ -73,12 +51,12 @@ export class TwitterCredentialsService {
     credentials: TwitterCredentials
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const supabase = await createClient();
+      const supabase = createServiceClient();
 
       // Encrypt sensitive tokens
-      const encryptedAccessToken = this.encrypt(credentials.accessToken);
+      const encryptedAccessToken = TokenEncryption.encrypt(credentials.accessToken);
       const encryptedRefreshToken = credentials.refreshToken 
-        ? this.encrypt(credentials.refreshToken) 
+        ? TokenEncryption.encrypt(credentials.refreshToken) 
         : null;
 
       const { error } = await supabase
@@ -109,11 +87,11 @@ export class TwitterCredentialsService {
    */
   static async getCredentials(userId: string): Promise<TwitterCredentials | null> {
     try {
-      const supabase = await createClient();
+      const supabase = createServiceClient();
 
       const { data, error } = await supabase
         .from('users_profiles')
-        .select('twitter_user_id, twitter_handle, twitter_access_token, twitter_refresh_token')
+        .select('twitter_user_id, twitter_handle, twitter_access_token, twitter_refresh_token, twitter_token_expires_at, twitter_needs_reconnect')
         .eq('id', userId)
         .single();
 
@@ -122,16 +100,18 @@ export class TwitterCredentialsService {
       }
 
       // Decrypt tokens
-      const accessToken = this.decrypt(data.twitter_access_token);
+      const accessToken = TokenEncryption.decrypt(data.twitter_access_token);
       const refreshToken = data.twitter_refresh_token 
-        ? this.decrypt(data.twitter_refresh_token) 
+        ? TokenEncryption.decrypt(data.twitter_refresh_token) 
         : undefined;
 
       return {
         accessToken,
         refreshToken,
         userId: data.twitter_user_id,
-        username: data.twitter_handle
+        username: data.twitter_handle,
+        expiresAt: data.twitter_token_expires_at ? new Date(data.twitter_token_expires_at) : undefined,
+        needsReconnect: data.twitter_needs_reconnect || false
       };
     } catch (error) {
       console.error('Error retrieving Twitter credentials:', error);
@@ -144,7 +124,7 @@ export class TwitterCredentialsService {
    */
   static async removeCredentials(userId: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const supabase = await createClient();
+      const supabase = createServiceClient();
 
       const { error } = await supabase
         .from('users_profiles')
@@ -153,6 +133,7 @@ export class TwitterCredentialsService {
           twitter_handle: null,
           twitter_access_token: null,
           twitter_refresh_token: null,
+          twitter_token_expires_at: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', userId);
@@ -175,7 +156,7 @@ export class TwitterCredentialsService {
   static async hasValidCredentials(userId: string): Promise<boolean> {
     try {
       const credentials = await this.getCredentials(userId);
-      return credentials !== null && credentials.accessToken.length > 0;
+      return credentials !== null && credentials.accessToken.length > 0 && !credentials.needsReconnect;
     } catch (error) {
       console.error('Error checking Twitter credentials:', error);
       return false;
@@ -183,26 +164,302 @@ export class TwitterCredentialsService {
   }
 
   /**
-   * Refresh Twitter access token if needed
-   * This would implement the OAuth 2.0 refresh token flow
+   * Whether the stored access token is expired or about to expire
+   */
+  static isExpired(credentials: TwitterCredentials): boolean {
+    if (!credentials.expiresAt) {
+      return false;
+    }
+    return credentials.expiresAt.getTime() - EXPIRY_MARGIN_MS <= Date.now();
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token (OAuth 2.0 refresh grant)
+   * X rotates refresh tokens on every use, so both tokens are persisted together.
+   * When X rejects the refresh token the account is flagged as needing a reconnect.
    */
-  static async refreshAccessToken(userId: string): Promise<{ success: boolean; error?: string }> {
+  static async refreshAccessToken(userId: string): Promise<TokenRefreshResult> {
+    const inFlight = this.refreshesInFlight.get(userId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const refresh = this.performRefresh(userId).finally(() => {
+      this.refreshesInFlight.delete(userId);
+    });
+    this.refreshesInFlight.set(userId, refresh);
+    return refresh;
+  }
+
+  private static async performRefresh(userId: string): Promise<TokenRefreshResult> {
+    if (!(await this.claimRefresh(userId))) {
+      return this.waitForRefresh(userId);
+    }
+
     try {
+      // Read after claiming, so a refresh that finished in the meantime isn't repeated with its spent token
       const credentials = await this.getCredentials(userId);
       
       if (!credentials?.refreshToken) {
-        return { success: false, error: 'No refresh token available' };
+        await this.markNeedsReconnect(userId);
+        return { success: false, needsReconnect: true, error: 'No refresh token available' };
       }
 
-      // In a real implementation, this would call Twitter's OAuth 2.0 token refresh endpoint
-      // For now, we'll return success assuming the token is still valid
-      console.log('Token refresh not implemented - using existing token');
-      
-      return { success: true };
+      const clientId = process.env.TWITTER_OAUTH2_CLIENT_ID;
+      const clientSecret = process.env.TWITTER_OAUTH2_CLIENT_SECRET;
+      if (!clientId || !clientSecret) {
+        return { success: false, error: 'Twitter OAuth 2.0 client credentials are not configured' };
+      }
+
+      const response = await fetch(TOKEN_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: credentials.refreshToken,
+          client_id: clientId,
+        }).toString(),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.access_token) {
+        console.error(`Twitter token refresh failed for user ${userId} (${response.status}):`, data);
+
+        // 400/401 from the token endpoint means the refresh token is invalid or revoked,
+        // unless another instance rotated it past the lock; then its stored tokens are good
+        if (response.status === 400 || response.status === 401) {
+          const current = await this.getCredentials(userId);
+          if (current?.refreshToken && current.refreshToken !== credentials.refreshToken) {
+            return { success: true, accessToken: current.accessToken };
+          }
+
+          await this.markNeedsReconnect(userId);
+          return { success: false, needsReconnect: true, error: 'Twitter authorization was revoked. Please reconnect your account.' };
+        }
+        return { success: false, error: 'Failed to refresh Twitter token' };
+      }
+
+      const expiresAt = data.expires_in
+        ? new Date(Date.now() + data.expires_in * 1000).toISOString()
+        : null;
+
+      const supabase = createServiceClient();
+      const { error } = await supabase
+        .from('users_profiles')
+        .update({
+          twitter_access_token: TokenEncryption.encrypt(data.access_token),
+          twitter_refresh_token: TokenEncryption.encrypt(data.refresh_token || credentials.refreshToken),
+          twitter_token_expires_at: expiresAt,
+          twitter_needs_reconnect: false,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId);
+
+      if (error) {
+        // The old refresh token is already spent, so the new one must not be lost silently
+        console.error(`Database error storing refreshed tokens for user ${userId}:`, error);
+        return { success: false, error: 'Failed to store refreshed Twitter token' };
+      }
+
+      console.log(`TwitterCredentialsService: Refreshed access token for user ${userId}`);
+      return { success: true, accessToken: data.access_token };
     } catch (error) {
       console.error('Error refreshing Twitter token:', error);
       return { success: false, error: 'Failed to refresh Twitter token' };
+    } finally {
+      await this.releaseRefresh(userId);
+    }
+  }
+
+  /**
+   * Lock a user's token refresh across instances
+   * Returns false while another refresh holds the lock
+   */
+  private static async claimRefresh(userId: string): Promise<boolean> {
+    try {
+      const supabase = createServiceClient();
+      const now = new Date().toISOString();
+
+      const { data, error } = await supabase
+        .from('users_profiles')
+        .update({ twitter_token_refreshing_until: new Date(Date.now() + REFRESH_LOCK_MS).toISOString() })
+        .eq('id', userId)
+        .or(`twitter_token_refreshing_until.is.null,twitter_token_refreshing_until.lt.${now}`)
+        .select('id');
+
+      if (error) {
+        console.error(`Database error claiming token refresh for user ${userId}:`, error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error('Error claiming Twitter token refresh:', error);
+      return false;
+    }
+  }
+
+  private static async releaseRefresh(userId: string): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+
+      const { error } = await supabase
+        .from('users_profiles')
+        .update({ twitter_token_refreshing_until: null })
+        .eq('id', userId)
+        .not('twitter_token_refreshing_until', 'is', null);
+
+      if (error) {
+        console.error(`Database error releasing token refresh for user ${userId}:`, error);
+      }
+    } catch (error) {
+      console.error('Error releasing Twitter token refresh:', error);
+    }
+  }
+
+  /**
+   * Wait for another instance's refresh to finish and use the tokens it stored
+   */
+  private static async waitForRefresh(userId: string): Promise<TokenRefreshResult> {
+    const supabase = createServiceClient();
+    const deadline = Date.now() + REFRESH_LOCK_MS;
+
+    while (Date.now() < deadline) {
+      await sleep(REFRESH_POLL_MS);
+
+      const { data } = await supabase
+        .from('users_profiles')
+        .select('twitter_token_refreshing_until')
+        .eq('id', userId)
+        .single();
+
+      const lockedUntil = data?.twitter_token_refreshing_until;
+      if (!lockedUntil || new Date(lockedUntil).getTime() <= Date.now()) {
+        break;
+      }
+    }
+
+    const credentials = await this.getCredentials(userId);
+    if (credentials?.needsReconnect) {
+      return { success: false, needsReconnect: true, error: 'Twitter authorization was revoked. Please reconnect your account.' };
+    }
+    if (!credentials || this.isExpired(credentials)) {
+      return { success: false, error: 'Failed to refresh Twitter token' };
     }
+
+    return { success: true, accessToken: credentials.accessToken };
+  }
+
+  /**
+   * Flag the account so the UI can ask the user to reconnect X
+   */
+  private static async markNeedsReconnect(userId: string): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+
+      const { error } = await supabase
+        .from('users_profiles')
+        .update({
+          twitter_needs_reconnect: true,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId);
+
+      if (error) {
+        console.error(`Database error flagging reconnect for user ${userId}:`, error);
+      }
+    } catch (error) {
+      console.error('Error flagging Twitter reconnect:', error);
+    }
+  }
+
+  /**
+   * Re-encrypt stored tokens with the current key
+   * Moves plaintext rows and rows on a retired key id onto the current key. Rows left in the
+   * legacy unauthenticated format cannot be decrypted, so those accounts are flagged for reconnect.
+   */
+  static async reencryptStoredTokens(batchSize: number = 100): Promise<TokenReencryptionStats> {
+    const stats: TokenReencryptionStats = { scanned: 0, reencrypted: 0, needsReconnect: 0, errors: [] };
+    const supabase = createServiceClient();
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from('users_profiles')
+        .select('id, twitter_access_token, twitter_refresh_token')
+        .or('twitter_access_token.not.is.null,twitter_refresh_token.not.is.null')
+        .order('id', { ascending: true })
+        .limit(batchSize);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data: rows, error } = await query;
+
+      if (error) {
+        console.error('TwitterCredentialsService: Error loading tokens for reencryption:', error);
+        stats.errors.push(error.message);
+        break;
+      }
+
+      if (!rows || rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        stats.scanned++;
+        const tokens = [row.twitter_access_token, row.twitter_refresh_token].filter((t): t is string => !!t);
+
+        if (tokens.some(token => TokenEncryption.isUnrecoverable(token))) {
+          await this.markNeedsReconnect(row.id);
+          stats.needsReconnect++;
+          continue;
+        }
+
+        if (!tokens.some(token => TokenEncryption.needsReencryption(token))) {
+          continue;
+        }
+
+        try {
+          let update = supabase
+            .from('users_profiles')
+            .update({
+              twitter_access_token: row.twitter_access_token
+                ? TokenEncryption.encrypt(TokenEncryption.decrypt(row.twitter_access_token))
+                : null,
+              twitter_refresh_token: row.twitter_refresh_token
+                ? TokenEncryption.encrypt(TokenEncryption.decrypt(row.twitter_refresh_token))
+                : null
+            })
+            .eq('id', row.id);
+
+          // Skip the row if a token refresh rewrote it in the meantime
+          if (row.twitter_access_token) {
+            update = update.eq('twitter_access_token', row.twitter_access_token);
+          }
+
+          const { error: updateError } = await update;
+          if (updateError) {
+            throw updateError;
+          }
+          stats.reencrypted++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`TwitterCredentialsService: Failed to reencrypt tokens for user ${row.id}:`, error);
+          stats.errors.push(`User ${row.id}: ${message}`);
+        }
+      }
+
+      lastId = rows[rows.length - 1].id;
+    }
+
+    console.log(`TwitterCredentialsService: Reencrypted tokens for ${stats.reencrypted} of ${stats.scanned} users`);
+    return stats;
   }
 }
 
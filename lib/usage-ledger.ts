@@ -0,0 +1,127 @@
+import { createServiceClient } from '@/lib/supabase/server';
+
+// Cost ledger: one api_usage_log row per LLM completion or X API call
+// Budgets are checked against the sum of these rows
+
+// Who a call is made for; both are null for system work such as cache revalidation
+export interface UsageContext {
+  userId?: string | null;
+  monitoringTargetId?: string | null;
+}
+
+export interface UsageEntry extends UsageContext {
+  operationType: string;
+  postsFetched?: number;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  repliesGenerated?: number;
+}
+
+// X API: $200/month for 15,000 posts = ~$0.0133 per post read
+export const X_COST_PER_POST_READ = 0.0133;
+
+// USD per token; models not listed (e.g. a local model server) cost nothing
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15 / 1000000, output: 0.6 / 1000000 },
+  'gpt-4o': { input: 2.5 / 1000000, output: 10 / 1000000 },
+  'gpt-4.1-mini': { input: 0.4 / 1000000, output: 1.6 / 1000000 },
+  'gpt-4.1': { input: 2 / 1000000, output: 8 / 1000000 }
+};
+
+/**
+ * Cost of a completion from its token counts
+ * Dated snapshots ("gpt-4o-mini-2024-07-18") are priced as their base model
+ */
+export function estimateLlmCost(model: string, inputTokens: number, outputTokens: number): number {
+  const base = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model === name || model.startsWith(`${name}-`));
+  if (!base) return 0;
+
+  const pricing = MODEL_PRICING[base];
+  return inputTokens * pricing.input + outputTokens * pricing.output;
+}
+
+export class UsageLedger {
+  /**
+   * Write one usage row; failures are logged so accounting never breaks the call it describes
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const inputTokens = entry.inputTokens || 0;
+    const outputTokens = entry.outputTokens || 0;
+    const postsFetched = entry.postsFetched || 0;
+    const cost = postsFetched * X_COST_PER_POST_READ +
+      (entry.model ? estimateLlmCost(entry.model, inputTokens, outputTokens) : 0);
+
+    try {
+      const supabase = createServiceClient();
+      const { error } = await supabase
+        .from('api_usage_log')
+        .insert({
+          user_id: entry.userId || null,
+          monitoring_target_id: entry.monitoringTargetId || null,
+          operation_type: entry.operationType,
+          posts_fetched: postsFetched,
+          model: entry.model || null,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          ai_tokens_used: inputTokens + outputTokens,
+          replies_generated: entry.repliesGenerated || 0,
+          estimated_cost_usd: cost
+        });
+
+      if (error) {
+        console.error('UsageLedger: Error recording usage:', error);
+      }
+    } catch (error) {
+      console.error('UsageLedger: Error recording usage:', error);
+    }
+  }
+
+  /**
+   * Total recorded spend since a point in time, for everyone or a single user
+   */
+  async getSpend(since: Date, userId?: string): Promise<number> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('sum_api_usage_cost', {
+      p_since: since.toISOString(),
+      p_user_id: userId || null
+    });
+
+    if (error) {
+      throw new Error(`Failed to sum API usage: ${error.message}`);
+    }
+
+    return Number(data) || 0;
+  }
+
+  /**
+   * Recorded spend since a point in time for each of the given users
+   * Users with no usage are returned with 0
+   */
+  async getSpendByUser(since: Date, userIds: string[]): Promise<Map<string, number>> {
+    const spend = new Map(userIds.map(userId => [userId, 0]));
+    if (userIds.length === 0) {
+      return spend;
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('sum_api_usage_cost_by_user', {
+      p_since: since.toISOString(),
+      p_user_ids: userIds
+    });
+
+    if (error) {
+      throw new Error(`Failed to sum API usage by user: ${error.message}`);
+    }
+
+    for (const row of (data || []) as { user_id: string; total_cost: number | string }[]) {
+      spend.set(row.user_id, Number(row.total_cost) || 0);
+    }
+    return spend;
+  }
+}
+
+// Export singleton instance
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,81 @@
+import { entitlements, type TierEntitlements } from './entitlements';
+import { usageLedger } from './usage-ledger';
+
+// The daily ceiling spreads the monthly budget evenly so one day can't use it all
+const DAYS_PER_BUDGET_MONTH = 30;
+
+export interface UserBudget {
+  tier: string;
+  dailyLimit: number;
+  monthlyLimit: number;
+  spentToday: number;
+  spentThisMonth: number;
+  // The tighter of what is left today and what is left this month
+  remaining: number;
+}
+
+/**
+ * Daily and monthly ceilings for a tier's monthly budget (PRD 8.2)
+ */
+export function getTierLimits(tier: TierEntitlements): { tier: string; dailyLimit: number; monthlyLimit: number } {
+  const monthlyLimit = tier.monthlyBudgetUsd;
+  return { tier: tier.tier, monthlyLimit, dailyLimit: monthlyLimit / DAYS_PER_BUDGET_MONTH };
+}
+
+/**
+ * How many units of a given cost fit in the remaining budget
+ */
+export function affordableCount(budget: UserBudget, unitCost: number): number {
+  if (unitCost <= 0) return Infinity;
+  return Math.max(0, Math.floor(budget.remaining / unitCost));
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export class UserBudgetService {
+  /**
+   * Current budget for each user, from their tier and recorded spend
+   */
+  async getBudgets(userIds: string[]): Promise<Map<string, UserBudget>> {
+    const budgets = new Map<string, UserBudget>();
+    if (userIds.length === 0) {
+      return budgets;
+    }
+
+    const tiers = await entitlements.getUserEntitlements(userIds);
+    const now = new Date();
+    const [spentToday, spentThisMonth] = await Promise.all([
+      usageLedger.getSpendByUser(startOfUtcDay(now), userIds),
+      usageLedger.getSpendByUser(startOfUtcMonth(now), userIds)
+    ]);
+
+    for (const userId of userIds) {
+      const limits = getTierLimits(tiers.get(userId)!);
+      const today = spentToday.get(userId) || 0;
+      const month = spentThisMonth.get(userId) || 0;
+
+      budgets.set(userId, {
+        ...limits,
+        spentToday: today,
+        spentThisMonth: month,
+        remaining: Math.max(0, Math.min(limits.dailyLimit - today, limits.monthlyLimit - month))
+      });
+    }
+
+    return budgets;
+  }
+
+  async getBudget(userId: string): Promise<UserBudget> {
+    const budgets = await this.getBudgets([userId]);
+    return budgets.get(userId)!;
+  }
+}
+
+// Export singleton instance
+export const userBudget = new UserBudgetService();
@@ -0,0 +1,251 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { containsEmoji, containsHashtag } from './voice-profile';
+
+// Feedback older than this no longer describes how the user writes
+const FEEDBACK_WINDOW_DAYS = 60;
+const MAX_FEEDBACK_ROWS = 300;
+
+// A correction becomes a rule once it recurs in enough edits, and in most edits it could apply to
+const MIN_CORRECTION_COUNT = 3;
+const MIN_CORRECTION_SHARE = 0.6;
+
+// Skips only produce a rule when a trait is much more common in skipped suggestions than kept ones
+const MIN_SKIPS = 5;
+const MIN_SKIP_PREVALENCE_GAP = 0.4;
+
+// Edits that shrink or grow a reply by this much count as a length correction
+const SHORTER_RATIO = 0.75;
+const LONGER_RATIO = 1.25;
+
+const MAX_LEARNED_RULES = 8;
+const MAX_LEARNED_EXAMPLES = 5;
+// Very short edits ("ok", "lol") say little about how the user writes
+const MIN_EXAMPLE_LENGTH = 20;
+
+// Words at the start of a suggestion that are checked for a recurring opener the user deletes
+const OPENER_WORDS = 2;
+
+// Statuses a suggestion can end up in after the user acted on it
+const KEPT_STATUSES = ['edited', 'approved', 'scheduled', 'posting', 'posted'];
+const FEEDBACK_STATUSES = [...KEPT_STATUSES, 'skipped'];
+
+export interface ReplyFeedback {
+  suggested_reply: string;
+  user_edited_reply: string | null;
+  status: string;
+}
+
+export interface FeedbackStats {
+  suggestions: number;
+  kept: number;
+  edited: number;
+  skipped: number;
+  editRate: number;
+}
+
+export interface VoiceLearningSummary {
+  rules: string[];
+  examples: string[];
+  stats: FeedbackStats;
+}
+
+interface VoiceLearningResult {
+  success: boolean;
+  rules: number;
+  examples: number;
+  error?: string;
+}
+
+// Traits a suggestion can have that users often take out
+const TRAITS: { rule: string; present: (text: string) => boolean }[] = [
+  { rule: "Don't end with or ask questions", present: text => text.includes('?') },
+  { rule: "Don't use exclamation marks", present: text => text.includes('!') },
+  { rule: "Don't use emoji", present: containsEmoji },
+  { rule: "Don't use hashtags", present: containsHashtag },
+  { rule: "Don't @mention other accounts", present: text => /(^|\s)@\w+/.test(text) }
+];
+
+function normalizeWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s']/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+function opener(text: string): string | null {
+  const words = normalizeWords(text);
+  return words.length > OPENER_WORDS ? words.slice(0, OPENER_WORDS).join(' ') : null;
+}
+
+function isEdit(feedback: ReplyFeedback): feedback is ReplyFeedback & { user_edited_reply: string } {
+  return !!feedback.user_edited_reply && feedback.user_edited_reply.trim() !== feedback.suggested_reply.trim();
+}
+
+/**
+ * Count a correction and how many edits it could have applied to
+ */
+class CorrectionTally {
+  private counts = new Map<string, { hits: number; applicable: number }>();
+
+  add(rule: string, applicable: boolean, hit: boolean) {
+    if (!applicable) return;
+    const entry = this.counts.get(rule) || { hits: 0, applicable: 0 };
+    entry.applicable++;
+    if (hit) entry.hits++;
+    this.counts.set(rule, entry);
+  }
+
+  recurring(): { rule: string; hits: number }[] {
+    return Array.from(this.counts.entries())
+      .filter(([, { hits, applicable }]) => hits >= MIN_CORRECTION_COUNT && hits / applicable >= MIN_CORRECTION_SHARE)
+      .map(([rule, { hits }]) => ({ rule, hits }))
+      .sort((a, b) => b.hits - a.hits);
+  }
+}
+
+export class VoiceLearner {
+  /**
+   * Turn a user's feedback (newest first) into voice rules and few-shot examples
+   * Edits are compared with the suggestion they replaced; skips are compared with the suggestions that were kept
+   */
+  static summarize(feedback: ReplyFeedback[]): VoiceLearningSummary {
+    const edits = feedback.filter(isEdit);
+    const kept = feedback.filter(item => KEPT_STATUSES.includes(item.status));
+    const skipped = feedback.filter(item => item.status === 'skipped');
+    const tally = new CorrectionTally();
+    const removedOpeners = new Map<string, number>();
+
+    for (const { suggested_reply: original, user_edited_reply: edited } of edits) {
+      const ratio = edited.length / Math.max(original.length, 1);
+      tally.add('Keep replies noticeably shorter', true, ratio <= SHORTER_RATIO);
+      tally.add('Write fuller, more detailed replies', true, ratio >= LONGER_RATIO);
+      tally.add('Write in all lowercase', original !== original.toLowerCase(), edited === edited.toLowerCase());
+
+      for (const trait of TRAITS) {
+        tally.add(trait.rule, trait.present(original), !trait.present(edited));
+      }
+
+      const originalOpener = opener(original);
+      if (originalOpener && opener(edited) !== originalOpener) {
+        removedOpeners.set(originalOpener, (removedOpeners.get(originalOpener) || 0) + 1);
+      }
+    }
+
+    const rules = tally.recurring().map(({ rule }) => rule);
+
+    removedOpeners.forEach((count, words) => {
+      if (count >= MIN_CORRECTION_COUNT) {
+        rules.push(`Don't open with "${words}"`);
+      }
+    });
+
+    // Traits far more common in skipped suggestions than in kept ones
+    if (skipped.length >= MIN_SKIPS && kept.length > 0) {
+      for (const trait of TRAITS) {
+        const skippedShare = skipped.filter(item => trait.present(item.suggested_reply)).length / skipped.length;
+        const keptShare = kept.filter(item => trait.present(item.user_edited_reply || item.suggested_reply)).length / kept.length;
+        if (skippedShare - keptShare >= MIN_SKIP_PREVALENCE_GAP && !rules.includes(trait.rule)) {
+          rules.push(trait.rule);
+        }
+      }
+    }
+
+    // The user's own rewrites that they went on to post are the best examples of their voice
+    const examples = Array.from(new Set(
+      edits
+        .filter(item => item.status === 'posted' && item.user_edited_reply.trim().length >= MIN_EXAMPLE_LENGTH)
+        .map(item => item.user_edited_reply.trim())
+    )).slice(0, MAX_LEARNED_EXAMPLES);
+
+    return {
+      rules: rules.slice(0, MAX_LEARNED_RULES),
+      examples,
+      stats: {
+        suggestions: feedback.length,
+        kept: kept.length,
+        edited: edits.length,
+        skipped: skipped.length,
+        editRate: kept.length > 0 ? Math.round((edits.length / kept.length) * 100) / 100 : 0
+      }
+    };
+  }
+
+  /**
+   * Users with new feedback since a point in time
+   */
+  async getUsersWithFeedback(since: Date, limit: number): Promise<string[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('reply_suggestions')
+      .select('user_id')
+      .in('status', FEEDBACK_STATUSES)
+      .gte('updated_at', since.toISOString())
+      .order('updated_at', { ascending: false })
+      .limit(1000);
+
+    if (error) {
+      throw new Error(`Failed to find users with feedback: ${error.message}`);
+    }
+
+    return Array.from(new Set<string>((data || []).map(row => row.user_id))).slice(0, limit);
+  }
+
+  /**
+   * Relearn a user's rules and examples from their recent feedback
+   * The previous learned rules are replaced, so corrections the user stops making fade out
+   */
+  async learnUser(userId: string): Promise<VoiceLearningResult> {
+    const result: VoiceLearningResult = { success: false, rules: 0, examples: 0 };
+
+    try {
+      const supabase = createServiceClient();
+      const since = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+      const { data: feedback, error } = await supabase
+        .from('reply_suggestions')
+        .select('suggested_reply, user_edited_reply, status')
+        .eq('user_id', userId)
+        .in('status', FEEDBACK_STATUSES)
+        .gte('updated_at', since.toISOString())
+        .order('updated_at', { ascending: false })
+        .limit(MAX_FEEDBACK_ROWS);
+
+      if (error) {
+        throw new Error(`Failed to load feedback: ${error.message}`);
+      }
+
+      const summary = VoiceLearner.summarize((feedback || []) as ReplyFeedback[]);
+      const learned = {
+        learned_rules: summary.rules,
+        learned_examples: summary.examples,
+        feedback_stats: summary.stats,
+        learned_at: new Date().toISOString()
+      };
+
+      // Users who skipped voice training have no profile row yet
+      const { data: existing } = await supabase
+        .from('voice_profiles')
+        .select('user_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      const { error: saveError } = existing
+        ? await supabase.from('voice_profiles').update(learned).eq('user_id', userId)
+        : await supabase.from('voice_profiles').insert({ user_id: userId, analysis: {}, ...learned });
+
+      if (saveError) {
+        throw new Error(`Failed to save learned voice: ${saveError.message}`);
+      }
+
+      result.success = true;
+      result.rules = summary.rules.length;
+      result.examples = summary.examples.length;
+      console.log(`VoiceLearner: ${userId} - ${summary.rules.length} rules, ${summary.examples.length} examples, edit rate ${Math.round(summary.stats.editRate * 100)}%`);
+    } catch (error) {
+      console.error(`VoiceLearner: Error learning voice for ${userId}:`, error);
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const voiceLearner = new VoiceLearner();
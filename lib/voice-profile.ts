@@ -0,0 +1,222 @@
+// Structured voice profile used to write replies in the user's voice
+// Built from voice_profiles.analysis (saved during onboarding, extended with explicit rules)
+// and the user's curated sample tweets
+
+export type ReplyLength = 'short' | 'medium' | 'long';
+export type UsageHabit = 'never' | 'sometimes' | 'often';
+
+export interface VoiceProfile {
+  personality: string | null;
+  communicationStyle: string | null;
+  interests: string[];
+  sampleTweets: string[];
+  dos: string[];
+  donts: string[];
+  preferredLength: ReplyLength;
+  emojiUsage: UsageHabit;
+  hashtagUsage: UsageHabit;
+  bannedPhrases: string[];
+  // Learned from the user's edits and skips (see VoiceLearner)
+  learnedRules: string[];
+  exampleReplies: string[];
+}
+
+export interface LearnedVoice {
+  rules?: string[] | null;
+  examples?: string[] | null;
+}
+
+// Character budget for each preferred length; X allows 280
+export const REPLY_LENGTH_LIMITS: Record<ReplyLength, number> = {
+  short: 120,
+  medium: 200,
+  long: 280
+};
+
+// Samples shown to the model; more adds tokens without adding much signal
+const MAX_PROMPT_SAMPLES = 5;
+const MAX_PROMPT_EXAMPLE_REPLIES = 3;
+
+const REPLY_LENGTHS: ReplyLength[] = ['short', 'medium', 'long'];
+const USAGE_HABITS: UsageHabit[] = ['never', 'sometimes', 'often'];
+
+// Common emoji blocks: pictographs, emoticons, transport, symbols and dingbats
+const EMOJI_PATTERN = /[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}]/u;
+const HASHTAG_PATTERN = /(^|\s)#\w+/;
+
+export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+  personality: null,
+  communicationStyle: null,
+  interests: [],
+  sampleTweets: [],
+  dos: [],
+  donts: [],
+  preferredLength: 'medium',
+  emojiUsage: 'sometimes',
+  hashtagUsage: 'never',
+  bannedPhrases: [],
+  learnedRules: [],
+  exampleReplies: []
+};
+
+export function containsEmoji(text: string): boolean {
+  return EMOJI_PATTERN.test(text);
+}
+
+export function containsHashtag(text: string): boolean {
+  return HASHTAG_PATTERN.test(text);
+}
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function toOption<T extends string>(value: unknown, options: T[]): T | null {
+  return options.includes(value as T) ? value as T : null;
+}
+
+/**
+ * How often a pattern shows up in the samples
+ */
+function inferHabit(samples: string[], matches: (text: string) => boolean): UsageHabit | null {
+  if (samples.length === 0) return null;
+
+  const share = samples.filter(matches).length / samples.length;
+  if (share === 0) return 'never';
+  return share >= 0.5 ? 'often' : 'sometimes';
+}
+
+/**
+ * Preferred length from the median sample length
+ */
+function inferLength(samples: string[]): ReplyLength | null {
+  if (samples.length === 0) return null;
+
+  const lengths = samples.map(sample => sample.length).sort((a, b) => a - b);
+  const median = lengths[Math.floor(lengths.length / 2)];
+  return REPLY_LENGTHS.find(length => median <= REPLY_LENGTH_LIMITS[length]) || 'long';
+}
+
+/**
+ * Build a voice profile from the stored analysis JSON and training samples
+ * Explicit settings win; emoji, hashtag and length habits are otherwise inferred from the samples
+ */
+export function parseVoiceProfile(
+  analysis: unknown,
+  trainingSamples: string[] = [],
+  learned: LearnedVoice = {}
+): VoiceProfile {
+  const data = (analysis && typeof analysis === 'object' ? analysis : {}) as Record<string, unknown>;
+  const samples = Array.from(new Set([...toStringArray(data.sampleTweets), ...toStringArray(trainingSamples)]));
+
+  return {
+    personality: toText(data.voicePersonality),
+    communicationStyle: toText(data.communicationStyle),
+    interests: toStringArray(data.interests),
+    sampleTweets: samples,
+    dos: toStringArray(data.dos),
+    donts: toStringArray(data.donts),
+    preferredLength: toOption(data.preferredLength, REPLY_LENGTHS) ||
+      inferLength(samples) || DEFAULT_VOICE_PROFILE.preferredLength,
+    emojiUsage: toOption(data.emojiUsage, USAGE_HABITS) ||
+      inferHabit(samples, containsEmoji) || DEFAULT_VOICE_PROFILE.emojiUsage,
+    hashtagUsage: toOption(data.hashtagUsage, USAGE_HABITS) ||
+      inferHabit(samples, containsHashtag) || DEFAULT_VOICE_PROFILE.hashtagUsage,
+    bannedPhrases: toStringArray(data.bannedPhrases),
+    learnedRules: toStringArray(learned.rules),
+    exampleReplies: toStringArray(learned.examples)
+  };
+}
+
+/**
+ * Validate the explicit voice settings a user can save alongside the analysis
+ * Returns the cleaned fields, or an error for values of the wrong type
+ */
+export function parseVoiceSettings(input: Record<string, unknown>): { settings: Record<string, unknown>; error: string | null } {
+  const settings: Record<string, unknown> = {};
+
+  for (const key of ['dos', 'donts', 'bannedPhrases', 'interests', 'sampleTweets']) {
+    if (input[key] === undefined) continue;
+    if (!Array.isArray(input[key])) {
+      return { settings: {}, error: `${key} must be a list of strings` };
+    }
+    settings[key] = toStringArray(input[key]);
+  }
+
+  for (const key of ['voicePersonality', 'communicationStyle']) {
+    if (input[key] === undefined) continue;
+    settings[key] = toText(input[key]);
+  }
+
+  const options: Record<string, string[]> = {
+    preferredLength: REPLY_LENGTHS,
+    emojiUsage: USAGE_HABITS,
+    hashtagUsage: USAGE_HABITS
+  };
+  for (const [key, values] of Object.entries(options)) {
+    if (input[key] === undefined) continue;
+    if (!values.includes(input[key] as string)) {
+      return { settings: {}, error: `${key} must be one of: ${values.join(', ')}` };
+    }
+    settings[key] = input[key];
+  }
+
+  return { settings, error: null };
+}
+
+const HABIT_INSTRUCTIONS: Record<UsageHabit, (thing: string) => string> = {
+  never: thing => `Never use ${thing}`,
+  sometimes: thing => `Use ${thing} sparingly, at most one`,
+  often: thing => `${thing.charAt(0).toUpperCase()}${thing.slice(1)} are welcome where natural`
+};
+
+/**
+ * The voice section of the reply prompt
+ */
+export function buildVoiceInstructions(profile: VoiceProfile): string {
+  const lines: string[] = [];
+
+  if (profile.personality) lines.push(`Personality: ${profile.personality}`);
+  if (profile.communicationStyle) lines.push(`Communication style: ${profile.communicationStyle}`);
+  if (profile.interests.length > 0) lines.push(`Areas of expertise: ${profile.interests.join(', ')}`);
+
+  if (profile.sampleTweets.length > 0) {
+    lines.push('Examples of how they write:');
+    profile.sampleTweets.slice(0, MAX_PROMPT_SAMPLES).forEach(sample => lines.push(`- "${sample}"`));
+  }
+
+  if (profile.exampleReplies.length > 0) {
+    lines.push('Replies they rewrote and posted themselves:');
+    profile.exampleReplies.slice(0, MAX_PROMPT_EXAMPLE_REPLIES).forEach(reply => lines.push(`- "${reply}"`));
+  }
+
+  lines.push('Style rules:');
+  lines.push(`- Keep it under ${REPLY_LENGTH_LIMITS[profile.preferredLength]} characters`);
+  lines.push(`- ${HABIT_INSTRUCTIONS[profile.emojiUsage]('emoji')}`);
+  lines.push(`- ${HABIT_INSTRUCTIONS[profile.hashtagUsage]('hashtags')}`);
+  profile.dos.forEach(rule => lines.push(`- Do: ${rule}`));
+  profile.donts.forEach(rule => lines.push(`- Don't: ${rule}`));
+  profile.learnedRules.forEach(rule => lines.push(`- ${rule} (learned from their feedback)`));
+
+  if (profile.bannedPhrases.length > 0) {
+    lines.push(`- Never use these phrases: ${profile.bannedPhrases.map(phrase => `"${phrase}"`).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * The first banned phrase a reply contains, if any (case-insensitive)
+ */
+export function findBannedPhrase(text: string, profile: VoiceProfile): string | null {
+  const lower = text.toLowerCase();
+  return profile.bannedPhrases.find(phrase => lower.includes(phrase.toLowerCase())) || null;
+}
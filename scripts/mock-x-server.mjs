@@ -0,0 +1,109 @@
+// Minimal mock of the X (Twitter) API v2 for local and automated testing
+// Start it and point the app at it:
+//   node scripts/mock-x-server.mjs
+//   TWITTER_API_BASE_URL=http://127.0.0.1:4010/2 npm run dev
+//
+// Scenarios are driven by the request itself:
+//   - Bearer token "revoked"            -> 401 Unauthorized
+//   - Bearer token "rate-limited"       -> 429 Too Many Requests
+//   - in_reply_to_tweet_id "deleted"    -> 403 reply to deleted tweet
+//   - posting the same text twice       -> 403 duplicate content
+//   - refresh_token "revoked"           -> 400 invalid_grant on token refresh
+import http from 'node:http'
+
+const PORT = parseInt(process.env.MOCK_X_PORT || '4010')
+
+const postedTexts = new Set()
+let nextTweetId = 1900000000000000000n
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function sendProblem(res, status, title, detail) {
+  send(res, status, { title, detail, type: 'about:blank', status })
+}
+
+function readRawBody(req) {
+  return new Promise((resolve) => {
+    let raw = ''
+    req.on('data', (chunk) => { raw += chunk })
+    req.on('end', () => resolve(raw))
+  })
+}
+
+async function readBody(req) {
+  const raw = await readRawBody(req)
+  try {
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return null
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`)
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '')
+
+  console.log(`[mock-x] ${req.method} ${url.pathname}`)
+
+  // Token refresh uses client Basic auth, not a bearer token
+  if (req.method === 'POST' && url.pathname === '/2/oauth2/token') {
+    const form = new URLSearchParams(await readRawBody(req))
+    if (form.get('grant_type') !== 'refresh_token' || !form.get('refresh_token')) {
+      return send(res, 400, { error: 'invalid_request', error_description: 'Missing refresh_token' })
+    }
+    if (form.get('refresh_token') === 'revoked') {
+      return send(res, 400, { error: 'invalid_grant', error_description: 'Value passed for the token was invalid.' })
+    }
+    const suffix = Date.now().toString(36)
+    return send(res, 200, {
+      token_type: 'bearer',
+      expires_in: 7200,
+      access_token: `mock-access-${suffix}`,
+      refresh_token: `mock-refresh-${suffix}`,
+      scope: 'tweet.read tweet.write users.read offline.access'
+    })
+  }
+
+  if (!token || token === 'revoked') {
+    return sendProblem(res, 401, 'Unauthorized', 'Unauthorized')
+  }
+  if (token === 'rate-limited') {
+    return sendProblem(res, 429, 'Too Many Requests', 'Too Many Requests')
+  }
+
+  if (req.method === 'GET' && url.pathname === '/2/users/me') {
+    return send(res, 200, {
+      data: { id: '1000', username: 'mock_user', name: 'Mock User' }
+    })
+  }
+
+  if (req.method === 'POST' && url.pathname === '/2/tweets') {
+    const body = await readBody(req)
+    if (!body || typeof body.text !== 'string' || body.text.length === 0) {
+      return sendProblem(res, 400, 'Invalid Request', 'One or more parameters to your request was invalid.')
+    }
+
+    if (body.reply?.in_reply_to_tweet_id === 'deleted') {
+      return sendProblem(res, 403, 'Forbidden', 'You attempted to reply to a Tweet that is deleted or not visible to you.')
+    }
+
+    if (postedTexts.has(body.text)) {
+      return sendProblem(res, 403, 'Forbidden', 'You are not allowed to create a Tweet with duplicate content.')
+    }
+
+    postedTexts.add(body.text)
+    nextTweetId += 1n
+    return send(res, 201, {
+      data: { id: nextTweetId.toString(), text: body.text }
+    })
+  }
+
+  sendProblem(res, 404, 'Not Found Error', `No mock for ${req.method} ${url.pathname}`)
+})
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`[mock-x] Mock X API listening on http://127.0.0.1:${PORT}/2`)
+})
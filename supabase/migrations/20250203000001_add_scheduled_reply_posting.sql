@@ -0,0 +1,25 @@
+-- Scheduled reply posting queue
+-- Replies can be scheduled for later; a cron job posts them once scheduled_for has passed
+
+-- Allow the queue states on reply suggestions
+ALTER TABLE reply_suggestions
+  DROP CONSTRAINT IF EXISTS reply_suggestions_status_check;
+
+ALTER TABLE reply_suggestions
+  ADD CONSTRAINT reply_suggestions_status_check
+  CHECK (status IN ('pending', 'approved', 'edited', 'skipped', 'scheduled', 'posting', 'posted', 'failed'));
+
+-- Track delivery attempts and the last error so failures are visible on the card
+ALTER TABLE reply_suggestions
+  ADD COLUMN IF NOT EXISTS post_attempts INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS post_error_code TEXT,
+  ADD COLUMN IF NOT EXISTS post_error_message TEXT;
+
+-- Lookup of due replies by the posting job
+CREATE INDEX IF NOT EXISTS idx_reply_suggestions_scheduled_due
+  ON reply_suggestions(scheduled_for)
+  WHERE status = 'scheduled';
+
+COMMENT ON COLUMN reply_suggestions.scheduled_for IS 'When a scheduled reply should be posted; moved forward on transient failures';
+COMMENT ON COLUMN reply_suggestions.post_attempts IS 'Number of times posting to X was attempted';
+COMMENT ON COLUMN reply_suggestions.post_error_code IS 'Error code of the last failed posting attempt';
@@ -0,0 +1,6 @@
+-- Track X OAuth 2.0 access token expiry so tokens can be refreshed before use,
+-- and flag accounts whose refresh token was rejected so the user can reconnect
+
+ALTER TABLE users_profiles
+  ADD COLUMN IF NOT EXISTS twitter_token_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS twitter_needs_reconnect BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,38 @@
+-- Account watchlist targets
+-- A monitoring target of type 'accounts' follows a set of specific X accounts and
+-- feeds their new original posts into the reply pipeline
+
+ALTER TABLE monitoring_targets
+  DROP CONSTRAINT IF EXISTS monitoring_targets_target_type_check;
+
+ALTER TABLE monitoring_targets
+  ADD CONSTRAINT monitoring_targets_target_type_check
+  CHECK (target_type IN ('topic', 'twitter_list', 'accounts'));
+
+-- One row per watched account; handles are resolved to user ids when the target is saved
+CREATE TABLE IF NOT EXISTS account_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitoring_target_id UUID REFERENCES monitoring_targets(id) ON DELETE CASCADE,
+  twitter_user_id TEXT NOT NULL,
+  twitter_handle TEXT NOT NULL, -- cached for display
+  display_name TEXT, -- cached for display
+  last_seen_tweet_id TEXT, -- newest tweet already fetched, used as since_id
+  last_polled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT account_targets_target_user_unique UNIQUE (monitoring_target_id, twitter_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_targets_monitoring_target
+  ON account_targets(monitoring_target_id);
+
+ALTER TABLE account_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own account targets" ON account_targets FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM monitoring_targets 
+    WHERE monitoring_targets.id = account_targets.monitoring_target_id 
+    AND monitoring_targets.user_id = auth.uid()
+  )
+);
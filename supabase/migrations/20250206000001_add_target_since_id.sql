@@ -0,0 +1,5 @@
+-- Remember the newest tweet id fetched for each monitoring target so the next
+-- batch run only requests tweets posted since then (X since_id)
+
+ALTER TABLE monitoring_targets
+  ADD COLUMN IF NOT EXISTS last_seen_tweet_id TEXT;
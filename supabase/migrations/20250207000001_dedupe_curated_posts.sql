@@ -0,0 +1,67 @@
+-- Deduplicate curated posts per user
+-- A tweet surfaced by several targets (or by overlapping runs) is curated once;
+-- every other target that found it is recorded in curated_post_sources
+
+-- Other monitoring targets that surfaced an already curated post
+CREATE TABLE IF NOT EXISTS curated_post_sources (
+  curated_post_id UUID REFERENCES curated_posts(id) ON DELETE CASCADE,
+  monitoring_target_id UUID REFERENCES monitoring_targets(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (curated_post_id, monitoring_target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_curated_post_sources_monitoring_target
+  ON curated_post_sources(monitoring_target_id);
+
+-- Collapse existing duplicates onto the oldest row for each (user, tweet)
+CREATE TEMP TABLE curated_post_duplicates AS
+SELECT id, keeper_id, monitoring_target_id
+FROM (
+  SELECT
+    id,
+    monitoring_target_id,
+    FIRST_VALUE(id) OVER (
+      PARTITION BY user_id, twitter_post_id
+      ORDER BY created_at, id
+    ) AS keeper_id
+  FROM curated_posts
+  WHERE twitter_post_id IS NOT NULL
+) ranked
+WHERE id <> keeper_id;
+
+INSERT INTO curated_post_sources (curated_post_id, monitoring_target_id)
+SELECT DISTINCT d.keeper_id, d.monitoring_target_id
+FROM curated_post_duplicates d
+JOIN curated_posts keeper ON keeper.id = d.keeper_id
+WHERE d.monitoring_target_id IS NOT NULL
+  AND d.monitoring_target_id IS DISTINCT FROM keeper.monitoring_target_id
+ON CONFLICT DO NOTHING;
+
+-- Untouched suggestions on duplicates are redundant cards; anything the user acted on is kept
+DELETE FROM reply_suggestions
+WHERE status = 'pending'
+  AND curated_post_id IN (SELECT id FROM curated_post_duplicates);
+
+UPDATE reply_suggestions
+SET curated_post_id = d.keeper_id
+FROM curated_post_duplicates d
+WHERE reply_suggestions.curated_post_id = d.id;
+
+DELETE FROM curated_posts
+WHERE id IN (SELECT id FROM curated_post_duplicates);
+
+DROP TABLE curated_post_duplicates;
+
+ALTER TABLE curated_posts
+  ADD CONSTRAINT curated_posts_user_tweet_unique UNIQUE (user_id, twitter_post_id);
+
+ALTER TABLE curated_post_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own curated post sources" ON curated_post_sources FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM curated_posts 
+    WHERE curated_posts.id = curated_post_sources.curated_post_id 
+    AND curated_posts.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,24 @@
+-- Shared search cache with stale-while-revalidate
+-- Entries are fresh until expires_at; until stale_until they are still served
+-- while a single worker (holding refreshing_until) re-fetches them from X
+
+CREATE TABLE IF NOT EXISTS search_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canonical_query TEXT NOT NULL,
+  query_type TEXT NOT NULL DEFAULT 'combined',
+  raw_results JSONB,
+  result_count INTEGER DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT search_cache_query_unique UNIQUE (canonical_query, query_type)
+);
+
+ALTER TABLE search_cache
+  ADD COLUMN IF NOT EXISTS stale_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS refreshing_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+UPDATE search_cache SET stale_until = expires_at WHERE stale_until IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_search_cache_stale_until ON search_cache(stale_until);
@@ -0,0 +1,8 @@
+-- Author details for curated posts, joined from the X user expansion when the post is fetched
+-- post_author_handle now holds the real username instead of the numeric author id
+
+ALTER TABLE curated_posts
+  ADD COLUMN IF NOT EXISTS post_author_name TEXT,
+  ADD COLUMN IF NOT EXISTS post_author_avatar_url TEXT,
+  ADD COLUMN IF NOT EXISTS post_author_followers_count INTEGER,
+  ADD COLUMN IF NOT EXISTS post_author_verified BOOLEAN DEFAULT false;
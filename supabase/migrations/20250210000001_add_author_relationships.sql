@@ -0,0 +1,31 @@
+-- Relationship model between a user and the authors they see in their digest
+-- Follow edges come from a periodic sync of the user's X graph; reply counts are
+-- recorded when a reply is posted and when the author is seen replying back
+
+CREATE TABLE IF NOT EXISTS author_relationships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users_profiles(id) ON DELETE CASCADE,
+  author_id TEXT NOT NULL, -- X user id of the author
+  author_handle TEXT,
+  user_follows_author BOOLEAN NOT NULL DEFAULT false,
+  author_follows_user BOOLEAN NOT NULL DEFAULT false,
+  replies_sent INTEGER NOT NULL DEFAULT 0, -- replies the user posted to this author
+  replies_received INTEGER NOT NULL DEFAULT 0, -- times the author replied back
+  last_replied_at TIMESTAMP WITH TIME ZONE,
+  last_replied_back_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT author_relationships_user_author_unique UNIQUE (user_id, author_id)
+);
+
+ALTER TABLE users_profiles
+  ADD COLUMN IF NOT EXISTS relationships_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- Set once the author's reply to a posted suggestion has been counted
+ALTER TABLE reply_suggestions
+  ADD COLUMN IF NOT EXISTS author_replied_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE author_relationships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own author relationships" ON author_relationships FOR ALL USING (auth.uid() = user_id);
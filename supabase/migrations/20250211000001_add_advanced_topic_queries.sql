@@ -0,0 +1,16 @@
+-- Structured query operators for topic targets, plus a raw query escape hatch
+-- When raw_query is set it is sent to X as-is and the structured fields are ignored
+
+ALTER TABLE topic_targets
+  ADD COLUMN IF NOT EXISTS exact_phrases TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS keyword_groups JSONB DEFAULT '[]', -- [["ai", "ml"], ["startup"]]: groups AND'd, terms OR'd
+  ADD COLUMN IF NOT EXISTS from_accounts TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS to_accounts TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS include_filters TEXT[] DEFAULT '{}', -- e.g. has:links, is:verified
+  ADD COLUMN IF NOT EXISTS exclude_filters TEXT[] DEFAULT '{}', -- e.g. has:media
+  ADD COLUMN IF NOT EXISTS conversation_id TEXT,
+  ADD COLUMN IF NOT EXISTS place_country TEXT, -- ISO 3166-1 alpha-2
+  ADD COLUMN IF NOT EXISTS raw_query TEXT;
+
+ALTER TABLE topic_targets
+  ADD CONSTRAINT topic_targets_raw_query_length CHECK (raw_query IS NULL OR char_length(raw_query) <= 512);
@@ -0,0 +1,33 @@
+-- Per-call usage ledger: every LLM completion and X API call writes one api_usage_log row
+-- with its real token counts or posts read, attributed to a user and monitoring target
+
+ALTER TABLE api_usage_log
+  ADD COLUMN IF NOT EXISTS model TEXT,
+  ADD COLUMN IF NOT EXISTS input_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS output_tokens INTEGER NOT NULL DEFAULT 0;
+
+-- Single calls cost fractions of a cent, which DECIMAL(10,4) rounds away
+ALTER TABLE api_usage_log
+  ALTER COLUMN estimated_cost_usd TYPE DECIMAL(14,8);
+
+-- Usage rows now reference targets, so deleting a target must not be blocked by its history
+ALTER TABLE api_usage_log
+  DROP CONSTRAINT IF EXISTS api_usage_log_monitoring_target_id_fkey;
+ALTER TABLE api_usage_log
+  ADD CONSTRAINT api_usage_log_monitoring_target_id_fkey
+  FOREIGN KEY (monitoring_target_id) REFERENCES monitoring_targets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_log_created_at ON api_usage_log(created_at);
+
+-- Total spend since a point in time, for everyone or one user
+-- Summed in the database because a day of per-call rows exceeds the API's row limit
+CREATE OR REPLACE FUNCTION sum_api_usage_cost(p_since TIMESTAMP WITH TIME ZONE, p_user_id UUID DEFAULT NULL)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(estimated_cost_usd), 0)
+  FROM api_usage_log
+  WHERE created_at >= p_since
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON COLUMN api_usage_log.operation_type IS 'ai_<task> for LLM completions, twitter_posts_read / twitter_write for X API calls';
+COMMENT ON COLUMN api_usage_log.model IS 'LLM model that served the completion, NULL for X API calls';
@@ -0,0 +1,11 @@
+-- Per-user spend for budget checks: total api_usage_log cost since a point in time
+-- for a set of users, in one query so eligible users can be screened together
+
+CREATE OR REPLACE FUNCTION sum_api_usage_cost_by_user(p_since TIMESTAMP WITH TIME ZONE, p_user_ids UUID[])
+RETURNS TABLE (user_id UUID, total_cost NUMERIC) AS $$
+  SELECT api_usage_log.user_id, COALESCE(SUM(estimated_cost_usd), 0)
+  FROM api_usage_log
+  WHERE created_at >= p_since
+    AND api_usage_log.user_id = ANY(p_user_ids)
+  GROUP BY api_usage_log.user_id;
+$$ LANGUAGE sql STABLE;
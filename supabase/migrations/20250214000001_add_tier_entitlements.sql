@@ -0,0 +1,136 @@
+-- Subscription tier entitlements (PRD 9): replies and posts per day, fetch size,
+-- number of monitoring targets and which target types a tier may create
+
+CREATE TABLE IF NOT EXISTS subscription_tiers (
+  tier TEXT PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  replies_per_day INTEGER NOT NULL CHECK (replies_per_day >= 0),
+  posts_per_day INTEGER NOT NULL CHECK (posts_per_day >= 0),
+  fetch_size INTEGER NOT NULL CHECK (fetch_size >= 10 AND fetch_size <= 100),
+  max_targets INTEGER CHECK (max_targets IS NULL OR max_targets >= 0), -- NULL means unlimited
+  allowed_target_types TEXT[] NOT NULL DEFAULT ARRAY['topic'],
+  monthly_budget_usd DECIMAL(10,2) NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Free accounts get the Starter allowance until billing exists
+INSERT INTO subscription_tiers
+  (tier, display_name, replies_per_day, posts_per_day, fetch_size, max_targets, allowed_target_types, monthly_budget_usd, sort_order)
+VALUES
+  ('free', 'Free', 10, 30, 10, 1, ARRAY['topic'], 12, 0),
+  ('starter', 'Starter', 10, 30, 10, 1, ARRAY['topic'], 12, 1),
+  ('power', 'Power User', 15, 45, 15, 3, ARRAY['topic', 'twitter_list', 'accounts'], 20, 2),
+  ('enterprise', 'Enterprise', 50, 150, 50, NULL, ARRAY['topic', 'twitter_list', 'accounts'], 60, 3)
+ON CONFLICT (tier) DO NOTHING;
+
+ALTER TABLE subscription_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view subscription tiers" ON subscription_tiers FOR SELECT USING (true);
+
+-- Tier of a user, falling back to the free tier for unknown or missing values
+CREATE OR REPLACE FUNCTION user_subscription_tier(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT subscription_tiers.tier
+     FROM users_profiles
+     JOIN subscription_tiers ON subscription_tiers.tier = users_profiles.subscription_tier
+     WHERE users_profiles.id = p_user_id),
+    'free'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Daily reset now grants each user their tier's replies and fetch size
+CREATE OR REPLACE FUNCTION reset_daily_quotas()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  -- Reset user processing state for new day
+  UPDATE user_processing_state
+  SET
+    replies_left_today = subscription_tiers.replies_per_day,
+    fetch_size = subscription_tiers.fetch_size,
+    daily_replies_generated = 0,
+    daily_posts_fetched = 0,
+    daily_reset_at = CURRENT_DATE + INTERVAL '1 day',
+    updated_at = NOW()
+  FROM subscription_tiers
+  WHERE subscription_tiers.tier = user_subscription_tier(user_processing_state.user_id)
+    AND user_processing_state.daily_reset_at <= NOW();
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- Reset monitoring targets daily counters
+  UPDATE monitoring_targets
+  SET
+    fetch_count_today = 0;
+
+  RETURN updated_count;
+END;
+$$;
+
+-- Backstop for target limits: the app checks these first to return a helpful error,
+-- but targets are also created straight from the client (onboarding)
+CREATE OR REPLACE FUNCTION enforce_target_entitlements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  entitlements subscription_tiers%ROWTYPE;
+  target_count INTEGER;
+BEGIN
+  IF NEW.status = 'archived' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only new targets and targets coming back from the archive count against the limit
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'archived' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO entitlements
+  FROM subscription_tiers
+  WHERE tier = user_subscription_tier(NEW.user_id);
+
+  IF NOT (NEW.target_type = ANY(entitlements.allowed_target_types)) THEN
+    RAISE EXCEPTION 'The % plan does not include % targets', entitlements.display_name, NEW.target_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF entitlements.max_targets IS NOT NULL THEN
+    SELECT COUNT(*) INTO target_count
+    FROM monitoring_targets
+    WHERE user_id = NEW.user_id
+      AND status <> 'archived'
+      AND id <> NEW.id;
+
+    IF target_count >= entitlements.max_targets THEN
+      RAISE EXCEPTION 'The % plan allows % monitoring targets', entitlements.display_name, entitlements.max_targets
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_target_entitlements ON monitoring_targets;
+
+CREATE TRIGGER enforce_target_entitlements
+  BEFORE INSERT OR UPDATE OF status ON monitoring_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_target_entitlements();
+
+-- Bring existing users in line with their tier right away rather than at the next reset
+UPDATE user_processing_state
+SET
+  replies_left_today = LEAST(user_processing_state.replies_left_today, subscription_tiers.replies_per_day),
+  fetch_size = subscription_tiers.fetch_size
+FROM subscription_tiers
+WHERE subscription_tiers.tier = user_subscription_tier(user_processing_state.user_id);
@@ -0,0 +1,63 @@
+-- Daily quotas reset at each user's local midnight (users_profiles.timezone) instead of
+-- at UTC midnight for everyone. reset_daily_quotas() only touches users whose reset is
+-- due, so it is meant to be called every 15 minutes rather than once a day
+
+-- Timezone of a user, falling back to UTC for missing or unknown names
+CREATE OR REPLACE FUNCTION user_timezone(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT users_profiles.timezone
+     FROM users_profiles
+     WHERE users_profiles.id = p_user_id
+       AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE pg_timezone_names.name = users_profiles.timezone)),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The instant the user's next local day starts
+CREATE OR REPLACE FUNCTION next_local_midnight(p_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT (date_trunc('day', NOW() AT TIME ZONE tz) + INTERVAL '1 day') AT TIME ZONE tz
+  FROM user_timezone(p_user_id) AS tz;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION reset_daily_quotas()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  -- Reset users whose local day has ended, and the daily counters of their targets
+  WITH reset_users AS (
+    UPDATE user_processing_state
+    SET
+      replies_left_today = subscription_tiers.replies_per_day,
+      fetch_size = subscription_tiers.fetch_size,
+      daily_replies_generated = 0,
+      daily_posts_fetched = 0,
+      daily_reset_at = next_local_midnight(user_processing_state.user_id),
+      updated_at = NOW()
+    FROM subscription_tiers
+    WHERE subscription_tiers.tier = user_subscription_tier(user_processing_state.user_id)
+      AND user_processing_state.daily_reset_at <= NOW()
+    RETURNING user_processing_state.user_id
+  ), reset_targets AS (
+    UPDATE monitoring_targets
+    SET fetch_count_today = 0
+    WHERE user_id IN (SELECT user_id FROM reset_users)
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO updated_count FROM reset_users;
+
+  RETURN updated_count;
+END;
+$$;
+
+COMMENT ON FUNCTION reset_daily_quotas() IS 'Resets daily quotas and counters for users whose local day has ended, called every 15 minutes';
+
+-- Line up users who aren't due a reset yet with their local midnight
+UPDATE user_processing_state
+SET daily_reset_at = next_local_midnight(user_id)
+WHERE daily_reset_at > NOW();
@@ -0,0 +1,79 @@
+-- Scheduled checks: users are processed in a window before each of their check times
+-- (daily_digest_time plus extra_check_times, in their own timezone) so the digest is
+-- ready when they expect it. The number of checks a day depends on the tier (PRD 9)
+
+ALTER TABLE users_profiles
+  ADD COLUMN IF NOT EXISTS extra_check_times TIME[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE subscription_tiers
+  ADD COLUMN IF NOT EXISTS checks_per_day INTEGER NOT NULL DEFAULT 1 CHECK (checks_per_day >= 1);
+
+UPDATE subscription_tiers SET checks_per_day = 2 WHERE tier = 'power';
+UPDATE subscription_tiers SET checks_per_day = 10 WHERE tier = 'enterprise';
+
+-- Users due for processing: replies left, past their cooldown and inside the window before
+-- one of their check times. Windows don't reach back past local midnight, when quotas reset.
+-- check_index is the position of that check in the user's day (0-based) out of check_count
+CREATE OR REPLACE FUNCTION select_users_due_for_processing(
+  p_window_minutes INTEGER,
+  p_cooldown_cutoff TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER
+)
+RETURNS TABLE (
+  user_id UUID,
+  replies_left_today INTEGER,
+  current_target_index INTEGER,
+  fetch_size INTEGER,
+  daily_posts_fetched INTEGER,
+  daily_replies_generated INTEGER,
+  last_served_at TIMESTAMP WITH TIME ZONE,
+  check_index INTEGER,
+  check_count INTEGER
+) AS $$
+  WITH schedules AS (
+    SELECT
+      ups.user_id,
+      ups.replies_left_today,
+      ups.current_target_index,
+      ups.fetch_size,
+      ups.daily_posts_fetched,
+      ups.daily_replies_generated,
+      ups.last_served_at,
+      (NOW() AT TIME ZONE user_timezone(ups.user_id))::TIME AS local_time,
+      ARRAY(
+        SELECT DISTINCT check_time
+        FROM unnest(array_prepend(
+          COALESCE(users_profiles.daily_digest_time, TIME '09:00'),
+          users_profiles.extra_check_times[1:subscription_tiers.checks_per_day - 1]
+        )) AS check_time
+        ORDER BY check_time
+      ) AS check_times
+    FROM user_processing_state ups
+    JOIN users_profiles ON users_profiles.id = ups.user_id
+    JOIN subscription_tiers ON subscription_tiers.tier = user_subscription_tier(ups.user_id)
+    WHERE ups.replies_left_today > 0
+      AND (ups.last_served_at IS NULL OR ups.last_served_at < p_cooldown_cutoff)
+  ), due AS (
+    -- Overlapping windows count as the earlier check
+    SELECT DISTINCT ON (schedules.user_id)
+      schedules.user_id,
+      schedules.replies_left_today,
+      schedules.current_target_index,
+      schedules.fetch_size,
+      schedules.daily_posts_fetched,
+      schedules.daily_replies_generated,
+      schedules.last_served_at,
+      (checks.position - 1)::INTEGER AS check_index,
+      array_length(schedules.check_times, 1) AS check_count
+    FROM schedules
+    CROSS JOIN LATERAL unnest(schedules.check_times) WITH ORDINALITY AS checks(check_time, position)
+    WHERE schedules.local_time < checks.check_time
+      AND schedules.local_time >= checks.check_time
+        - LEAST(make_interval(mins => p_window_minutes), checks.check_time - TIME '00:00')
+    ORDER BY schedules.user_id, checks.check_time
+  )
+  SELECT *
+  FROM due
+  ORDER BY due.last_served_at ASC NULLS FIRST
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,14 @@
+-- Voice learning: recurring corrections from the user's edits and skips become rules in
+-- their voice profile, and their best edited replies become few-shot examples.
+-- Learned fields are kept apart from the analysis so relearning never overwrites
+-- rules the user set themselves
+
+ALTER TABLE voice_profiles
+  ADD COLUMN IF NOT EXISTS learned_rules TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS learned_examples TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS feedback_stats JSONB, -- edit and skip counts behind the last learning run
+  ADD COLUMN IF NOT EXISTS learned_at TIMESTAMP WITH TIME ZONE;
+
+-- Feedback is read per user by recency
+CREATE INDEX IF NOT EXISTS idx_reply_suggestions_user_updated_at
+  ON reply_suggestions(user_id, updated_at DESC);
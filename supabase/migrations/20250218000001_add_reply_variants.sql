@@ -0,0 +1,26 @@
+-- Reply variants: several replies per curated post, each taking a different stance
+-- (agree and extend, question, counterpoint, resource) in a tone and length the user
+-- can change from the reply card. reply_suggestions.suggested_reply holds the variant
+-- currently shown; selected_variant_id records the one the user picked, for learning
+
+CREATE TABLE IF NOT EXISTS reply_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reply_suggestion_id UUID NOT NULL REFERENCES reply_suggestions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users_profiles(id) ON DELETE CASCADE,
+  stance TEXT NOT NULL CHECK (stance IN ('agree_extend', 'question', 'counterpoint', 'resource')),
+  tone TEXT NOT NULL DEFAULT 'voice' CHECK (tone IN ('voice', 'casual', 'professional', 'playful')),
+  length TEXT CHECK (length IN ('short', 'medium', 'long')), -- NULL: the voice profile's preferred length
+  content TEXT NOT NULL,
+  confidence FLOAT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_variants_suggestion
+  ON reply_variants(reply_suggestion_id);
+
+ALTER TABLE reply_suggestions
+  ADD COLUMN IF NOT EXISTS selected_variant_id UUID REFERENCES reply_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE reply_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own reply variants" ON reply_variants FOR ALL USING (auth.uid() = user_id);
@@ -0,0 +1,34 @@
+-- On-demand regeneration: a suggestion can be regenerated from the reply card with an
+-- optional instruction ("make it funnier"). Each regeneration bumps the suggestion's
+-- version; the replaced reply is kept in reply_suggestion_versions and its variants
+-- stay in reply_variants under their version
+
+ALTER TABLE reply_suggestions
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS regeneration_instruction TEXT; -- instruction that produced the current version
+
+ALTER TABLE reply_variants
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS reply_suggestion_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reply_suggestion_id UUID NOT NULL REFERENCES reply_suggestions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users_profiles(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  suggested_reply TEXT,
+  user_edited_reply TEXT,
+  selected_variant_id UUID REFERENCES reply_variants(id) ON DELETE SET NULL,
+  instruction TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Also stops two regenerations of the same version from both going through
+  CONSTRAINT reply_suggestion_versions_unique UNIQUE (reply_suggestion_id, version)
+);
+
+DROP INDEX IF EXISTS idx_reply_variants_suggestion;
+CREATE INDEX IF NOT EXISTS idx_reply_variants_suggestion_version
+  ON reply_variants(reply_suggestion_id, version);
+
+ALTER TABLE reply_suggestion_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reply versions" ON reply_suggestion_versions FOR ALL USING (auth.uid() = user_id);
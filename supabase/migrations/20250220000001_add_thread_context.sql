@@ -0,0 +1,7 @@
+-- Thread and conversation context for curated posts: the tweet a post replies to, the tweet
+-- it quotes and the top replies in its conversation, captured when the post is curated.
+-- Used in the reply prompt and shown on the reply card (PRD: post review with thread context)
+
+ALTER TABLE curated_posts
+  ADD COLUMN IF NOT EXISTS conversation_id TEXT,
+  ADD COLUMN IF NOT EXISTS thread_context JSONB; -- ThreadContext, NULL when the post stands alone
@@ -0,0 +1,65 @@
+-- Regenerating a suggestion archives the replaced reply, stores the new variants and bumps
+-- the version. Doing that in three requests could leave a suggestion half regenerated
+-- (archived but not updated) when one of them failed, so it now runs as one function
+
+-- Regenerate a suggestion from variants generated for p_expected_version + 1.
+-- Fails when the suggestion was regenerated since p_expected_version was read;
+-- returns the stored variants
+CREATE OR REPLACE FUNCTION regenerate_reply_suggestion(
+  p_reply_suggestion_id UUID,
+  p_user_id UUID,
+  p_expected_version INTEGER,
+  p_suggested_reply TEXT,
+  p_instruction TEXT,
+  p_variants JSONB
+)
+RETURNS SETOF reply_variants AS $$
+DECLARE
+  current_suggestion reply_suggestions%ROWTYPE;
+BEGIN
+  SELECT * INTO current_suggestion
+  FROM reply_suggestions
+  WHERE id = p_reply_suggestion_id
+    AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reply suggestion % not found', p_reply_suggestion_id;
+  END IF;
+
+  IF current_suggestion.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Reply suggestion % was regenerated in the meantime', p_reply_suggestion_id;
+  END IF;
+
+  INSERT INTO reply_suggestion_versions (
+    reply_suggestion_id, user_id, version, suggested_reply, user_edited_reply, selected_variant_id, instruction
+  ) VALUES (
+    p_reply_suggestion_id,
+    p_user_id,
+    current_suggestion.version,
+    current_suggestion.suggested_reply,
+    current_suggestion.user_edited_reply,
+    current_suggestion.selected_variant_id,
+    current_suggestion.regeneration_instruction
+  );
+
+  UPDATE reply_suggestions
+  SET suggested_reply = p_suggested_reply,
+      user_edited_reply = NULL,
+      selected_variant_id = NULL,
+      status = 'pending',
+      version = p_expected_version + 1,
+      regeneration_instruction = p_instruction,
+      updated_at = NOW()
+  WHERE id = p_reply_suggestion_id;
+
+  RETURN QUERY
+  INSERT INTO reply_variants (reply_suggestion_id, user_id, stance, tone, length, content, confidence, version)
+  SELECT p_reply_suggestion_id, p_user_id, v.stance, v.tone, v.length, v.content, v.confidence, p_expected_version + 1
+  FROM jsonb_to_recordset(p_variants) AS v(stance TEXT, tone TEXT, length TEXT, content TEXT, confidence FLOAT)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the reply generator (service role) regenerates suggestions
+REVOKE EXECUTE ON FUNCTION regenerate_reply_suggestion(UUID, UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,10 @@
+-- The processing helpers are SECURITY DEFINER, so anyone allowed to call them reads or
+-- changes other users' rows past RLS. Postgres grants EXECUTE to PUBLIC by default, which
+-- let anon and signed-in users call them through the API. Only the service role
+-- (batch processor and cron routes) and the functions and triggers built on them need them
+
+REVOKE EXECUTE ON FUNCTION select_users_due_for_processing(INTEGER, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION user_subscription_tier(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION user_timezone(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION next_local_midnight(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reset_daily_quotas() FROM PUBLIC, anon, authenticated;
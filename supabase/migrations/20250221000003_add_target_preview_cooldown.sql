@@ -0,0 +1,4 @@
+-- Target test runs read a full page of recent search from X each time, so they are limited
+-- to one per user per cooldown. Claimed by /api/targets/preview before searching
+ALTER TABLE users_profiles
+  ADD COLUMN IF NOT EXISTS target_preview_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,9 @@
+-- Reply variants and archived versions are only written by the reply generator through the
+-- service role; users read them on their reply cards. The FOR ALL policies also let users
+-- insert, edit or delete them directly, so they are narrowed to SELECT
+
+DROP POLICY IF EXISTS "Users can manage own reply variants" ON reply_variants;
+CREATE POLICY "Users can view own reply variants" ON reply_variants FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own reply versions" ON reply_suggestion_versions;
+CREATE POLICY "Users can view own reply versions" ON reply_suggestion_versions FOR SELECT USING (auth.uid() = user_id);
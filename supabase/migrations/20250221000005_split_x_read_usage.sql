@@ -0,0 +1,2 @@
+-- X reads are logged per resource type; only post reads carry the per-post cost
+COMMENT ON COLUMN api_usage_log.operation_type IS 'ai_<task> for LLM completions; twitter_posts_read, twitter_users_read, twitter_lists_read or twitter_write for X API calls';
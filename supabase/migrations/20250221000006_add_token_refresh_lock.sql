@@ -0,0 +1,6 @@
+-- X rotates refresh tokens on every use, so only one instance may refresh a user's token at a
+-- time; the others would send the spent token and get invalid_grant. A refresh claims the row
+-- until this time and clears it once it has finished
+
+ALTER TABLE users_profiles
+  ADD COLUMN IF NOT EXISTS twitter_token_refreshing_until TIMESTAMPTZ;
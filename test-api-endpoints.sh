@@ -2,6 +2,14 @@
 
 # Test script for X Reply Manager API endpoints
 # Make sure your Next.js dev server is running: npm run dev
+#
+# Cron schedule in production (each POST needs the cron API key):
+#   /api/public/run                   every few minutes
+#   /api/public/post-scheduled        every few minutes
+#   /api/public/reset-daily           every 15 minutes; quotas reset at each user's local midnight,
+#                                     so it can't run once a day at UTC midnight
+#   /api/public/sync-relationships    a few times a day
+#   /api/public/learn-voice           once a day
 
 API_KEY="dev-test-api-key-change-in-production"
 BASE_URL="http://localhost:3000"
@@ -61,6 +69,40 @@ curl -s -X POST "$BASE_URL/api/public/reset-daily" \
 echo ""
 echo ""
 
+# Test 7: Check scheduled posting queue status
+echo "7. Testing /api/public/post-scheduled GET (queue status)..."
+echo "-----------------------------------------------------------"
+curl -s "$BASE_URL/api/public/post-scheduled" | python3 -m json.tool
+echo ""
+echo ""
+
+# Test 8: Post due scheduled replies (requires API key)
+echo "8. Testing /api/public/post-scheduled POST (post due replies)..."
+echo "----------------------------------------------------------------"
+curl -s -X POST "$BASE_URL/api/public/post-scheduled" \
+  -H "CRON-API-Key: $API_KEY" \
+  -H "Content-Type: application/json" | python3 -m json.tool
+echo ""
+echo ""
+
+# Test 9: Sync follow graph and replies-back (requires API key)
+echo "9. Testing /api/public/sync-relationships POST (sync author relationships)..."
+echo "-----------------------------------------------------------------------------"
+curl -s -X POST "$BASE_URL/api/public/sync-relationships?limit=5" \
+  -H "CRON-API-Key: $API_KEY" \
+  -H "Content-Type: application/json" | python3 -m json.tool
+echo ""
+echo ""
+
+# Test 10: Learn voice rules from edits and skips (requires API key)
+echo "10. Testing /api/public/learn-voice POST (learn from reply feedback)..."
+echo "-----------------------------------------------------------------------"
+curl -s -X POST "$BASE_URL/api/public/learn-voice?limit=5" \
+  -H "CRON-API-Key: $API_KEY" \
+  -H "Content-Type: application/json" | python3 -m json.tool
+echo ""
+echo ""
+
 echo "================================================"
 echo "Testing complete!"
 echo "================================================"